@@ -0,0 +1,350 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Columns, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { columnLetterReference, defaultColumnMapping, matchColumnFor, parseColumnLetterReference, type ColumnMapping as ColumnMappingType, type GoogleSheet, type MatchKey } from '@shared/schema';
+
+interface ColumnMappingProps {
+  sheet: GoogleSheet;
+}
+
+interface SheetColumn {
+  letter: string;
+  header: string;
+}
+
+interface ShopifyLocation {
+  id: string;
+  name: string;
+  active: boolean;
+}
+
+interface ShopifyPriceList {
+  id: string;
+  name: string;
+  currency: string;
+  catalog?: string;
+}
+
+const NONE = '__none__';
+
+const matchKeyLabels: Record<MatchKey, string> = {
+  sku: 'SKU (exact)',
+  sku_case_insensitive: 'SKU (ignore case)',
+  sku_normalized: 'SKU (ignore case, spaces and dashes)',
+  barcode: 'Barcode / GTIN',
+  handle_options: 'Product handle + option values',
+  variant_id: 'Variant ID',
+};
+
+const optionSlots = [0, 1, 2];
+
+export default function ColumnMapping({ sheet }: ColumnMappingProps) {
+  const [mapping, setMapping] = useState<ColumnMappingType>(sheet.columnMapping || defaultColumnMapping);
+  const [extraFields, setExtraFields] = useState<{ name: string; column: string }[]>(
+    Object.entries(sheet.columnMapping?.extra || {}).map(([name, column]) => ({ name, column }))
+  );
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: columns = [], isLoading, refetch } = useQuery<SheetColumn[]>({
+    queryKey: [`/api/sheets/${sheet.id}/columns`],
+  });
+
+  const { data: locations = [] } = useQuery<ShopifyLocation[]>({
+    queryKey: ['/api/stores', sheet.storeId, 'locations'],
+    queryFn: async () => {
+      const response = await fetch(`/api/stores/${sheet.storeId}/locations`);
+      if (!response.ok) throw new Error('Failed to fetch locations');
+      return response.json();
+    },
+  });
+
+  // REST stores have no price lists and get an error here, which just hides the market columns
+  const { data: priceLists = [] } = useQuery<ShopifyPriceList[]>({
+    queryKey: ['/api/stores', sheet.storeId, 'price-lists'],
+    queryFn: async () => {
+      const response = await fetch(`/api/stores/${sheet.storeId}/price-lists`);
+      if (!response.ok) throw new Error('Failed to fetch price lists');
+      return response.json();
+    },
+    retry: false,
+  });
+
+  const saveMappingMutation = useMutation({
+    mutationFn: async (columnMapping: ColumnMappingType) => {
+      return apiRequest('PUT', `/api/sheets/${sheet.id}`, { columnMapping });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sheets', sheet.storeId] });
+      queryClient.invalidateQueries({ queryKey: [`/api/sheets/${sheet.id}/preview`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/sheets', sheet.id, 'count'] });
+      toast({
+        title: 'Success',
+        description: 'Column mapping saved',
+      });
+    },
+    onError: () => {
+      toast({
+        title: 'Error',
+        description: 'Failed to save column mapping',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Named headers are stored by name so the mapping survives inserted columns
+  const columnValue = (column: SheetColumn) => column.header || columnLetterReference(column.letter);
+
+  const columnLabel = (column: SheetColumn) => column.header ? `${column.letter} – ${column.header}` : `Column ${column.letter}`;
+
+  // Existing mappings may reference a column that has no header yet (e.g. the default 'Column D'),
+  // or a header that is no longer in the sheet
+  const options = (reference?: string) => {
+    if (!reference || columns.some(column => columnValue(column) === reference)) {
+      return columns;
+    }
+    const letter = parseColumnLetterReference(reference);
+    return [...columns, letter ? { letter, header: '' } : { letter: '?', header: reference }];
+  };
+
+  const handleSave = () => {
+    const extra = Object.fromEntries(
+      extraFields
+        .filter(field => field.name.trim() && field.column)
+        .map(field => [field.name.trim(), field.column])
+    );
+
+    const statusEntries = Object.entries(mapping.statusColumns || {})
+      .map(([key, column]) => [key, column?.trim()])
+      .filter(([, column]) => column);
+
+    saveMappingMutation.mutate({
+      ...mapping,
+      extra: Object.keys(extra).length > 0 ? extra : undefined,
+      statusColumns: statusEntries.length > 0 ? Object.fromEntries(statusEntries) : undefined,
+    });
+  };
+
+  const statusColumns = mapping.statusColumns || {};
+  const matchKey = mapping.matchKey || 'sku';
+  const matchColumn = matchColumnFor(matchKey);
+
+  // Quantities are keyed by location ID, market prices by price list ID
+  const setKeyedColumn = (field: 'quantities' | 'marketPrices', key: string, column: string | undefined) => {
+    const next = { ...(mapping[field] || {}) };
+    if (column) {
+      next[key] = column;
+    } else {
+      delete next[key];
+    }
+    setMapping({ ...mapping, [field]: Object.keys(next).length > 0 ? next : undefined });
+  };
+
+  // Option columns are kept in option order, so clearing one drops the ones after it
+  const setOptionColumn = (slot: number, column: string | undefined) => {
+    const next = [...(mapping.options || []).slice(0, slot), ...(column ? [column] : [])];
+    setMapping({ ...mapping, options: next.length > 0 ? next : undefined });
+  };
+
+  // Status columns usually don't exist yet, so they're typed in (header name or "Column F")
+  const setStatusColumn = (key: keyof NonNullable<ColumnMappingType['statusColumns']>, value: string) => {
+    const next = { ...statusColumns, [key]: value || undefined };
+    setMapping({
+      ...mapping,
+      statusColumns: Object.values(next).some(Boolean) ? next : undefined,
+    });
+  };
+
+  const renderSelect = (
+    label: string,
+    value: string | undefined,
+    onChange: (value: string | undefined) => void,
+    optional: boolean,
+    testId: string,
+  ) => (
+    <div>
+      <label className="block text-xs font-medium text-gray-700 mb-1">{label}</label>
+      <Select
+        value={value || NONE}
+        onValueChange={(selected) => onChange(selected === NONE ? undefined : selected)}
+      >
+        <SelectTrigger data-testid={testId}>
+          <SelectValue placeholder="Select column" />
+        </SelectTrigger>
+        <SelectContent>
+          {optional && <SelectItem value={NONE}>Not mapped</SelectItem>}
+          {options(value).map(column => (
+            <SelectItem key={`${column.letter}-${column.header}`} value={columnValue(column)}>
+              {columnLabel(column)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4" data-testid="column-mapping">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Columns className="text-gray-500" size={16} />
+          <span className="text-sm font-medium text-gray-900">Column Mapping</span>
+        </div>
+        <Button variant="ghost" size="sm" onClick={() => refetch()} disabled={isLoading} data-testid="button-reload-columns">
+          {isLoading ? 'Reading headers...' : 'Reload Headers'}
+        </Button>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">Match Rows By</label>
+        <Select
+          value={matchKey}
+          onValueChange={(value) => setMapping({ ...mapping, matchKey: value as MatchKey })}
+        >
+          <SelectTrigger data-testid="select-match-key">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(matchKeyLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {renderSelect('SKU', mapping.sku, (sku) => setMapping({ ...mapping, sku }), matchColumn !== 'sku', 'select-column-sku')}
+        {renderSelect('Price', mapping.price, (price) => setMapping({ ...mapping, price: price || mapping.price }), false, 'select-column-price')}
+        {renderSelect('Compare At Price', mapping.compareAtPrice, (compareAtPrice) => setMapping({ ...mapping, compareAtPrice }), true, 'select-column-compare-price')}
+        {renderSelect('Unit Cost', mapping.cost, (cost) => setMapping({ ...mapping, cost }), true, 'select-column-cost')}
+        {renderSelect(matchKey === 'variant_id' ? 'Variant ID' : 'Variant ID (written back)', mapping.variantId, (variantId) => setMapping({ ...mapping, variantId }), matchColumn !== 'variantId', 'select-column-variant-id')}
+        {matchKey === 'barcode' && renderSelect('Barcode', mapping.barcode, (barcode) => setMapping({ ...mapping, barcode }), false, 'select-column-barcode')}
+        {matchKey === 'handle_options' && renderSelect('Product Handle', mapping.handle, (handle) => setMapping({ ...mapping, handle }), false, 'select-column-handle')}
+        {matchKey === 'handle_options' && optionSlots
+          .filter(slot => slot <= (mapping.options?.length || 0))
+          .map(slot => (
+            <div key={slot}>
+              {renderSelect(`Option ${slot + 1} Value`, mapping.options?.[slot], (column) => setOptionColumn(slot, column), true, `select-column-option-${slot + 1}`)}
+            </div>
+          ))}
+      </div>
+
+      {locations.length > 0 && (
+        <div className="space-y-2">
+          <label className="block text-xs font-medium text-gray-700">Inventory Quantities</label>
+          <div className="grid grid-cols-2 gap-3">
+            {locations
+              .filter(location => location.active || mapping.quantities?.[location.id])
+              .map(location => (
+                <div key={location.id}>
+                  {renderSelect(location.name, mapping.quantities?.[location.id], (column) => setKeyedColumn('quantities', location.id, column), true, `select-column-quantity-${location.id}`)}
+                </div>
+              ))}
+          </div>
+          <p className="text-xs text-gray-500">Sets the available quantity at each mapped location; blank cells leave that location unchanged.</p>
+        </div>
+      )}
+
+      {priceLists.length > 0 && (
+        <div className="space-y-2">
+          <label className="block text-xs font-medium text-gray-700">Market Prices</label>
+          <div className="grid grid-cols-2 gap-3">
+            {priceLists.map(priceList => (
+              <div key={priceList.id}>
+                {renderSelect(`${priceList.catalog || priceList.name} (${priceList.currency})`, mapping.marketPrices?.[priceList.id], (column) => setKeyedColumn('marketPrices', priceList.id, column), true, `select-column-market-price-${priceList.id}`)}
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">Sets a fixed price in each market's price list, in its currency and without pricing rules; blank cells leave that market unchanged.</p>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <label className="block text-xs font-medium text-gray-700">Status Write-back</label>
+        <div className="grid grid-cols-3 gap-3">
+          <Input
+            value={statusColumns.status || ''}
+            placeholder="Status (e.g. Sync Status)"
+            onChange={(event) => setStatusColumn('status', event.target.value)}
+            data-testid="input-status-column"
+          />
+          <Input
+            value={statusColumns.oldPrice || ''}
+            placeholder="Old price (e.g. Old Price)"
+            onChange={(event) => setStatusColumn('oldPrice', event.target.value)}
+            data-testid="input-old-price-column"
+          />
+          <Input
+            value={statusColumns.syncedAt || ''}
+            placeholder="Synced at (e.g. Synced At)"
+            onChange={(event) => setStatusColumn('syncedAt', event.target.value)}
+            data-testid="input-synced-at-column"
+          />
+        </div>
+        <p className="text-xs text-gray-500">Header name, or a column letter written as "Column F". Missing headers are added on the next sync.</p>
+      </div>
+
+      <div className="space-y-2">
+        <label className="block text-xs font-medium text-gray-700">Extra Fields</label>
+        {extraFields.map((field, index) => (
+          <div key={index} className="flex items-center space-x-2">
+            <Input
+              value={field.name}
+              placeholder="Field name"
+              onChange={(event) => setExtraFields(extraFields.map((f, i) => i === index ? { ...f, name: event.target.value } : f))}
+              data-testid={`input-extra-field-name-${index}`}
+            />
+            <Select
+              value={field.column || undefined}
+              onValueChange={(column) => setExtraFields(extraFields.map((f, i) => i === index ? { ...f, column } : f))}
+            >
+              <SelectTrigger data-testid={`select-extra-field-column-${index}`}>
+                <SelectValue placeholder="Select column" />
+              </SelectTrigger>
+              <SelectContent>
+                {options(field.column).map(column => (
+                  <SelectItem key={`${column.letter}-${column.header}`} value={columnValue(column)}>
+                    {columnLabel(column)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setExtraFields(extraFields.filter((_, i) => i !== index))}
+              data-testid={`button-remove-extra-field-${index}`}
+            >
+              <Trash2 size={14} />
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setExtraFields([...extraFields, { name: '', column: '' }])}
+          data-testid="button-add-extra-field"
+        >
+          <Plus className="mr-1" size={14} />
+          Add Field
+        </Button>
+      </div>
+
+      <div className="flex justify-end">
+        <Button
+          className="bg-foxx-green hover:bg-green-700"
+          onClick={handleSave}
+          disabled={saveMappingMutation.isPending}
+          data-testid="button-save-column-mapping"
+        >
+          {saveMappingMutation.isPending ? 'Saving...' : 'Save Mapping'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { useQuery } from '@tanstack/react-query';
+import { Copy, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface DuplicateSkuVariant {
+  id: string;
+  product_id: string;
+  price: string;
+  product_status?: string;
+}
+
+interface DuplicateSku {
+  sku: string;
+  variants: DuplicateSkuVariant[];
+}
+
+interface DuplicateSkuReportProps {
+  storeId: string;
+}
+
+export default function DuplicateSkuReport({ storeId }: DuplicateSkuReportProps) {
+  // Scanning the catalog can take a while on large stores, so it only runs on request
+  const { data: duplicates, isFetching, error, refetch } = useQuery<DuplicateSku[]>({
+    queryKey: ['/api/stores', storeId, 'duplicate-skus'],
+    queryFn: async () => {
+      const response = await fetch(`/api/stores/${storeId}/duplicate-skus`);
+      if (!response.ok) throw new Error('Failed to load duplicate SKUs');
+      return response.json();
+    },
+    enabled: false,
+  });
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-3" data-testid="duplicate-sku-report">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Copy className="text-gray-500" size={16} />
+          <span className="text-sm font-medium text-gray-900">Duplicate SKU Report</span>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => refetch()}
+          disabled={isFetching}
+          data-testid="button-find-duplicate-skus"
+        >
+          <Search className="mr-1" size={14} />
+          {isFetching ? 'Scanning...' : 'Scan Store'}
+        </Button>
+      </div>
+
+      {error && (
+        <p className="text-xs text-red-600" data-testid="text-duplicate-skus-error">
+          {error instanceof Error ? error.message : 'Failed to load duplicate SKUs'}
+        </p>
+      )}
+
+      {duplicates && duplicates.length === 0 && (
+        <p className="text-xs text-gray-500" data-testid="text-no-duplicate-skus">Every SKU in the store belongs to a single variant</p>
+      )}
+
+      {duplicates && duplicates.length > 0 && (
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          <p className="text-xs text-gray-500" data-testid="text-duplicate-sku-count">
+            {duplicates.length.toLocaleString()} SKUs are shared by more than one variant
+          </p>
+          {duplicates.map(duplicate => (
+            <div key={duplicate.sku} className="text-sm border border-gray-100 rounded p-2" data-testid={`duplicate-sku-${duplicate.sku}`}>
+              <div className="font-mono text-gray-900">{duplicate.sku}</div>
+              {duplicate.variants.map(variant => (
+                <div key={variant.id} className="text-xs text-gray-500">
+                  Variant {variant.id} · product {variant.product_id} · ${variant.price}
+                  {variant.product_status && ` · ${variant.product_status}`}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,6 +7,8 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
+import ColumnMapping from '@/components/ColumnMapping';
+import SyncSchedules from '@/components/SyncSchedules';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { insertGoogleSheetSchema } from '@shared/schema';
@@ -235,6 +237,9 @@ export default function GoogleSheetsConfiguration({ selectedStoreId }: GoogleShe
                   </div>
                 </div>
               )}
+
+              {isExpanded && <ColumnMapping key={primarySheet.id} sheet={primarySheet} />}
+              {isExpanded && <SyncSchedules key={`schedules-${primarySheet.id}`} sheet={primarySheet} />}
             </>
           ) : (
             <div className="space-y-6">
@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { Guardrails as GuardrailsType, Store } from '@shared/schema';
+
+interface GuardrailsProps {
+  selectedStore?: Store;
+}
+
+type NumericField = 'maxIncreasePercent' | 'maxDecreasePercent' | 'minPrice' | 'abortBlockedPercent';
+type ToggleField = 'requireCompareAtAbovePrice' | 'blockZeroPrices';
+
+const numericFields: { field: NumericField; label: string; placeholder: string }[] = [
+  { field: 'maxIncreasePercent', label: 'Max Increase %', placeholder: 'No limit' },
+  { field: 'maxDecreasePercent', label: 'Max Decrease %', placeholder: 'No limit' },
+  { field: 'minPrice', label: 'Price Floor', placeholder: 'No floor' },
+  { field: 'abortBlockedPercent', label: 'Abort When Blocked Rows Exceed %', placeholder: 'Never abort' },
+];
+
+const toggleFields: { field: ToggleField; label: string }[] = [
+  { field: 'blockZeroPrices', label: 'Block zero prices' },
+  { field: 'requireCompareAtAbovePrice', label: 'Compare-at must be at least the price' },
+];
+
+// Inputs are kept as text so partially typed numbers aren't reformatted
+function toFormValues(guardrails?: GuardrailsType | null): Record<NumericField, string> {
+  return Object.fromEntries(
+    numericFields.map(({ field }) => [field, guardrails?.[field]?.toString() ?? ''])
+  ) as Record<NumericField, string>;
+}
+
+export default function Guardrails({ selectedStore }: GuardrailsProps) {
+  const [enabled, setEnabled] = useState(selectedStore?.guardrails?.enabled ?? false);
+  const [toggles, setToggles] = useState<Record<ToggleField, boolean>>({
+    blockZeroPrices: selectedStore?.guardrails?.blockZeroPrices ?? true,
+    requireCompareAtAbovePrice: selectedStore?.guardrails?.requireCompareAtAbovePrice ?? false,
+  });
+  const [values, setValues] = useState(toFormValues(selectedStore?.guardrails));
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const saveGuardrailsMutation = useMutation({
+    mutationFn: async ({ storeId, guardrails }: { storeId: string; guardrails: GuardrailsType }) => {
+      return apiRequest('PUT', `/api/stores/${storeId}`, { guardrails });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/stores'] });
+      toast({
+        title: 'Success',
+        description: 'Guardrails saved',
+      });
+    },
+    onError: () => {
+      toast({
+        title: 'Error',
+        description: 'Failed to save guardrails',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (!selectedStore) {
+    return null;
+  }
+
+  const handleSave = () => {
+    const guardrails: GuardrailsType = { enabled, ...toggles };
+
+    for (const { field, label } of numericFields) {
+      const value = values[field].trim();
+      if (!value) continue;
+
+      const parsed = parseFloat(value);
+      if (isNaN(parsed) || parsed < 0) {
+        toast({
+          title: 'Error',
+          description: `${label} must be a positive number`,
+          variant: 'destructive',
+        });
+        return;
+      }
+      guardrails[field] = parsed;
+    }
+
+    saveGuardrailsMutation.mutate({ storeId: selectedStore.id, guardrails });
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-orange-100 rounded-lg flex items-center justify-center">
+              <ShieldAlert className="text-orange-600" size={20} />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Price Guardrails</h3>
+              <p className="text-sm text-gray-500">Block suspicious price changes before they reach Shopify</p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <span className="text-sm text-gray-600">{enabled ? 'Enabled' : 'Disabled'}</span>
+            <Switch checked={enabled} onCheckedChange={setEnabled} data-testid="switch-guardrails" />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          {numericFields.map(({ field, label, placeholder }) => (
+            <div key={field}>
+              <label className="block text-xs font-medium text-gray-700 mb-1">{label}</label>
+              <Input
+                type="number"
+                step="any"
+                min="0"
+                value={values[field]}
+                placeholder={placeholder}
+                onChange={(event) => setValues({ ...values, [field]: event.target.value })}
+                disabled={!enabled}
+                data-testid={`input-guardrail-${field}`}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2 mt-4">
+          {toggleFields.map(({ field, label }) => (
+            <div key={field} className="flex items-center justify-between">
+              <span className="text-sm text-gray-700">{label}</span>
+              <Switch
+                checked={toggles[field]}
+                onCheckedChange={(checked) => setToggles({ ...toggles, [field]: checked })}
+                disabled={!enabled}
+                data-testid={`switch-guardrail-${field}`}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between pt-4 mt-4 border-t border-gray-100">
+          <p className="text-xs text-gray-500">Blocked rows are logged and skipped, including in previews</p>
+          <Button
+            className="bg-foxx-green hover:bg-green-700"
+            onClick={handleSave}
+            disabled={saveGuardrailsMutation.isPending}
+            data-testid="button-save-guardrails"
+          >
+            {saveGuardrailsMutation.isPending ? 'Saving...' : 'Save Guardrails'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,6 @@
 import { useEffect, useRef } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { Activity, CheckCircle, AlertTriangle, XCircle } from 'lucide-react';
+import { Activity, CheckCircle, AlertTriangle, XCircle, Eye } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import type { SyncLog } from '@shared/schema';
@@ -33,6 +33,8 @@ export default function LiveActivityLogs({ logs }: LiveActivityLogsProps) {
     switch (status) {
       case 'success':
         return <CheckCircle className="text-foxx-green" size={16} />;
+      case 'planned':
+        return <Eye className="text-blue-600" size={16} />;
       case 'not_found':
         return <AlertTriangle className="text-amber-600" size={16} />;
       case 'error':
@@ -50,12 +52,42 @@ export default function LiveActivityLogs({ logs }: LiveActivityLogsProps) {
             <CheckCircle className="inline mr-1" size={12} /> Updated
           </span>
         );
+      case 'planned':
+        return (
+          <span className="text-xs text-blue-600 bg-blue-100 px-2 py-1 rounded" data-testid={`status-${status}`}>
+            planned
+          </span>
+        );
+      case 'unchanged':
+        return (
+          <span className="text-xs text-gray-600 bg-gray-100 px-2 py-1 rounded" data-testid={`status-${status}`}>
+            unchanged
+          </span>
+        );
+      case 'held':
+        return (
+          <span className="text-xs text-teal-600 bg-teal-100 px-2 py-1 rounded" data-testid={`status-${status}`}>
+            awaiting approval
+          </span>
+        );
+      case 'blocked':
+        return (
+          <span className="text-xs text-orange-600 bg-orange-100 px-2 py-1 rounded" data-testid={`status-${status}`}>
+            blocked
+          </span>
+        );
       case 'not_found':
         return (
           <span className="text-xs text-amber-600 bg-amber-100 px-2 py-1 rounded" data-testid={`status-${status}`}>
             not found
           </span>
         );
+      case 'duplicate_sku':
+        return (
+          <span className="text-xs text-purple-600 bg-purple-100 px-2 py-1 rounded" data-testid={`status-${status}`}>
+            duplicate SKU
+          </span>
+        );
       case 'error':
         return (
           <span className="text-xs text-red-600 bg-red-100 px-2 py-1 rounded" data-testid={`status-${status}`}>
@@ -84,6 +116,8 @@ export default function LiveActivityLogs({ logs }: LiveActivityLogsProps) {
     switch (status) {
       case 'success':
         return 'bg-green-50 border-green-200';
+      case 'planned':
+        return 'bg-blue-50 border-blue-200';
       case 'not_found':
         return 'bg-amber-50 border-amber-200';
       case 'error':
@@ -135,8 +169,28 @@ export default function LiveActivityLogs({ logs }: LiveActivityLogsProps) {
                         {log.sku}
                       </span>
                       {getStatusBadge(log.status)}
+                      {(log.retryCount ?? 0) > 0 && (
+                        <span className="text-xs text-amber-600" data-testid="text-log-retries">
+                          {log.retryCount} {log.retryCount === 1 ? 'retry' : 'retries'}
+                        </span>
+                      )}
                     </div>
-                    {log.status === 'success' && log.oldPrice && log.newPrice && (
+                    {log.kind === 'inventory' && log.newQuantity != null && (
+                      <p className="text-xs text-gray-500 mt-1" data-testid="text-quantity-change">
+                        Stock at location {log.locationId}: {log.oldQuantity ?? '—'} → {log.newQuantity}
+                      </p>
+                    )}
+                    {log.kind === 'market' && log.newPrice != null && (
+                      <p className="text-xs text-gray-500 mt-1" data-testid="text-market-price-change">
+                        Price list {log.priceListId}: {log.oldPrice != null ? parseFloat(log.oldPrice).toFixed(2) : '—'} → {parseFloat(log.newPrice).toFixed(2)} {log.currency}
+                      </p>
+                    )}
+                    {log.kind === 'cost' && log.newCost != null && (
+                      <p className="text-xs text-gray-500 mt-1" data-testid="text-cost-change">
+                        Unit cost: {log.oldCost != null ? `$${parseFloat(log.oldCost).toFixed(2)}` : '—'} → ${parseFloat(log.newCost).toFixed(2)}
+                      </p>
+                    )}
+                    {(log.kind ?? 'price') === 'price' && (log.status === 'success' || log.status === 'planned') && log.oldPrice && log.newPrice && (
                       <p className="text-xs text-gray-500 mt-1" data-testid="text-price-change">
                         ${parseFloat(log.oldPrice).toFixed(2)} → ${parseFloat(log.newPrice).toFixed(2)}
                       </p>
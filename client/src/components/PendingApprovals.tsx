@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { ClipboardCheck, Check, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { ApprovalDecision, PendingChange } from '@shared/schema';
+
+interface PendingApprovalsProps {
+  selectedStoreId: string;
+}
+
+export default function PendingApprovals({ selectedStoreId }: PendingApprovalsProps) {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: pendingChanges = [], isLoading } = useQuery<PendingChange[]>({
+    queryKey: ['/api/approvals', { storeId: selectedStoreId }],
+    queryFn: async () => {
+      const response = await fetch(`/api/approvals?storeId=${selectedStoreId}`);
+      if (!response.ok) throw new Error('Failed to fetch approvals');
+      return response.json();
+    },
+    enabled: !!selectedStoreId,
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async (decision: ApprovalDecision) => {
+      const response = await apiRequest('POST', '/api/approvals', decision);
+      return response.json();
+    },
+    onSuccess: (data, decision) => {
+      setSelectedIds(new Set());
+      queryClient.invalidateQueries({ queryKey: ['/api/approvals'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/sync/status', selectedStoreId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/sync/sessions', { storeId: selectedStoreId }] });
+      toast({
+        title: 'Success',
+        description: decision.action === 'approve'
+          ? `${data.updated} change(s) approved${data.sessionIds.length > 0 ? ' and being applied' : ' - they will be applied once the current sync finishes'}`
+          : `${data.updated} change(s) rejected`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: 'Error',
+        description: 'Failed to update approvals',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    const next = new Set(selectedIds);
+    if (checked) {
+      next.add(id);
+    } else {
+      next.delete(id);
+    }
+    setSelectedIds(next);
+  };
+
+  const allSelected = pendingChanges.length > 0 && pendingChanges.every(change => selectedIds.has(change.id));
+
+  const formatPrice = (value: string | null) => value ? `$${parseFloat(value).toFixed(2)}` : '—';
+
+  const formatChange = (value: string | null) => {
+    if (value === null) return 'new price';
+    const percent = parseFloat(value);
+    return `${percent > 0 ? '+' : ''}${percent.toFixed(1)}%`;
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-teal-100 rounded-lg flex items-center justify-center">
+              <ClipboardCheck className="text-teal-600" size={20} />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Pending Approvals</h3>
+              <p className="text-sm text-gray-500">Large price changes held back by "require approval" syncs</p>
+            </div>
+          </div>
+          <div className="flex space-x-2">
+            <Button
+              variant="outline"
+              onClick={() => reviewMutation.mutate({ ids: Array.from(selectedIds), action: 'reject' })}
+              disabled={selectedIds.size === 0 || reviewMutation.isPending}
+              data-testid="button-reject-selected"
+            >
+              <X className="mr-2" size={16} />
+              Reject Selected
+            </Button>
+            <Button
+              className="bg-foxx-green hover:bg-green-700"
+              onClick={() => reviewMutation.mutate({ ids: Array.from(selectedIds), action: 'approve' })}
+              disabled={selectedIds.size === 0 || reviewMutation.isPending}
+              data-testid="button-approve-selected"
+            >
+              <Check className="mr-2" size={16} />
+              Approve Selected ({selectedIds.size})
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500 text-center py-6">Loading approvals...</p>
+        ) : pendingChanges.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6" data-testid="text-no-approvals">No changes awaiting approval</p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto border border-gray-200 rounded-lg">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left">
+                    <Checkbox
+                      checked={allSelected}
+                      onCheckedChange={(checked) => setSelectedIds(checked ? new Set(pendingChanges.map(change => change.id)) : new Set())}
+                      data-testid="checkbox-select-all-approvals"
+                    />
+                  </th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">SKU</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Price</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Change</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Compare At</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {pendingChanges.map(change => (
+                  <tr key={change.id} data-testid={`pending-change-${change.sku}`}>
+                    <td className="px-4 py-2">
+                      <Checkbox
+                        checked={selectedIds.has(change.id)}
+                        onCheckedChange={(checked) => toggleSelected(change.id, checked === true)}
+                        data-testid={`checkbox-approval-${change.id}`}
+                      />
+                    </td>
+                    <td className="px-4 py-2 font-medium text-gray-900">{change.sku}</td>
+                    <td className="px-4 py-2 text-gray-600">
+                      {formatPrice(change.oldPrice)} → {formatPrice(change.newPrice)}
+                    </td>
+                    <td className="px-4 py-2 text-gray-600">{formatChange(change.changePercent)}</td>
+                    <td className="px-4 py-2 text-gray-600">
+                      {formatPrice(change.oldComparePrice)} → {formatPrice(change.newComparePrice)}
+                    </td>
+                    <td className="px-4 py-2">
+                      <div className="flex justify-end space-x-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => reviewMutation.mutate({ ids: [change.id], action: 'approve' })}
+                          disabled={reviewMutation.isPending}
+                          data-testid={`button-approve-${change.id}`}
+                        >
+                          <Check className="text-green-600" size={14} />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => reviewMutation.mutate({ ids: [change.id], action: 'reject' })}
+                          disabled={reviewMutation.isPending}
+                          data-testid={`button-reject-${change.id}`}
+                        >
+                          <X className="text-red-600" size={14} />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
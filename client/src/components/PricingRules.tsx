@@ -0,0 +1,172 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Calculator } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { PricingRules as PricingRulesType, Store } from '@shared/schema';
+
+interface PricingRulesProps {
+  selectedStore?: Store;
+}
+
+type NumericField = 'markupPercent' | 'fixedAddOn' | 'minPrice' | 'maxPrice' | 'compareAtFactor';
+
+const numericFields: { field: NumericField; label: string; placeholder: string }[] = [
+  { field: 'markupPercent', label: 'Markup %', placeholder: 'e.g. 40' },
+  { field: 'fixedAddOn', label: 'Fixed Add-on', placeholder: 'e.g. 2.50' },
+  { field: 'minPrice', label: 'Minimum Price', placeholder: 'No minimum' },
+  { field: 'maxPrice', label: 'Maximum Price', placeholder: 'No maximum' },
+  { field: 'compareAtFactor', label: 'Compare-at = Price ×', placeholder: 'Use sheet value' },
+];
+
+// Inputs are kept as text so partially typed numbers aren't reformatted
+function toFormValues(rules?: PricingRulesType | null): Record<NumericField, string> {
+  return Object.fromEntries(
+    numericFields.map(({ field }) => [field, rules?.[field]?.toString() ?? ''])
+  ) as Record<NumericField, string>;
+}
+
+export default function PricingRules({ selectedStore }: PricingRulesProps) {
+  const [enabled, setEnabled] = useState(selectedStore?.pricingRules?.enabled ?? false);
+  const [basis, setBasis] = useState<NonNullable<PricingRulesType['basis']>>(selectedStore?.pricingRules?.basis ?? 'price');
+  const [rounding, setRounding] = useState<NonNullable<PricingRulesType['rounding']>>(selectedStore?.pricingRules?.rounding ?? 'none');
+  const [values, setValues] = useState(toFormValues(selectedStore?.pricingRules));
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const saveRulesMutation = useMutation({
+    mutationFn: async ({ storeId, pricingRules }: { storeId: string; pricingRules: PricingRulesType }) => {
+      return apiRequest('PUT', `/api/stores/${storeId}`, { pricingRules });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/stores'] });
+      toast({
+        title: 'Success',
+        description: 'Pricing rules saved',
+      });
+    },
+    onError: () => {
+      toast({
+        title: 'Error',
+        description: 'Failed to save pricing rules',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (!selectedStore) {
+    return null;
+  }
+
+  const handleSave = () => {
+    const pricingRules: PricingRulesType = { enabled, basis, rounding };
+
+    for (const { field, label } of numericFields) {
+      const value = values[field].trim();
+      if (!value) continue;
+
+      const parsed = parseFloat(value);
+      if (isNaN(parsed)) {
+        toast({
+          title: 'Error',
+          description: `${label} must be a number`,
+          variant: 'destructive',
+        });
+        return;
+      }
+      pricingRules[field] = parsed;
+    }
+
+    saveRulesMutation.mutate({ storeId: selectedStore.id, pricingRules });
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-green-100 rounded-lg flex items-center justify-center">
+              <Calculator className="text-foxx-green" size={20} />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Pricing Rules</h3>
+              <p className="text-sm text-gray-500">Turn sheet values (e.g. supplier cost) into retail prices before syncing</p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <span className="text-sm text-gray-600">{enabled ? 'Enabled' : 'Disabled'}</span>
+            <Switch checked={enabled} onCheckedChange={setEnabled} data-testid="switch-pricing-rules" />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Markup From</label>
+            <Select
+              value={basis}
+              onValueChange={(value) => setBasis(value as NonNullable<PricingRulesType['basis']>)}
+              disabled={!enabled}
+            >
+              <SelectTrigger data-testid="select-pricing-basis">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="price">Sheet price</SelectItem>
+                <SelectItem value="cost">Unit cost column</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {numericFields.map(({ field, label, placeholder }) => (
+            <div key={field}>
+              <label className="block text-xs font-medium text-gray-700 mb-1">{label}</label>
+              <Input
+                type="number"
+                step="any"
+                value={values[field]}
+                placeholder={placeholder}
+                onChange={(event) => setValues({ ...values, [field]: event.target.value })}
+                disabled={!enabled}
+                data-testid={`input-pricing-${field}`}
+              />
+            </div>
+          ))}
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Rounding</label>
+            <Select
+              value={rounding}
+              onValueChange={(value) => setRounding(value as NonNullable<PricingRulesType['rounding']>)}
+              disabled={!enabled}
+            >
+              <SelectTrigger data-testid="select-pricing-rounding">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No rounding</SelectItem>
+                <SelectItem value="0.99">Up to .99</SelectItem>
+                <SelectItem value="0.95">Up to .95</SelectItem>
+                <SelectItem value="whole">Nearest whole amount</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between pt-4 mt-4 border-t border-gray-100">
+          <p className="text-xs text-gray-500">Applied in order: markup, add-on, rounding, min/max, compare-at</p>
+          <Button
+            className="bg-foxx-green hover:bg-green-700"
+            onClick={handleSave}
+            disabled={saveRulesMutation.isPending}
+            data-testid="button-save-pricing-rules"
+          >
+            {saveRulesMutation.isPending ? 'Saving...' : 'Save Rules'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
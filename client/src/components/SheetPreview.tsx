@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { Table, RefreshCw, CheckCircle, Clock, AlertTriangle, Minus } from 'lucide-react';
+import { Table, RefreshCw, CheckCircle, Clock, AlertTriangle, Minus, Eye } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import type { GoogleSheet, SyncLog } from '@shared/schema';
@@ -14,7 +14,7 @@ interface SheetPreviewProps {
 interface SheetRowData {
   sku: string;
   variantPrice: number;
-  compareAtPrice: number;
+  compareAtPrice?: number;
   row: number;
 }
 
@@ -70,7 +70,7 @@ export default function SheetPreview({ selectedStoreId, liveLogs = [], syncStatu
     // If sync is running, check if this SKU has been processed
     if (syncStatus?.status === 'running') {
       // Check live logs for this SKU
-      const skuLog = liveLogs.find(log => log.sku === sku);
+      const skuLog = liveLogs.find(log => log.sku === sku && (log.kind ?? 'price') === 'price');
       if (skuLog) {
         return skuLog.status; // 'success', 'not_found', 'error'
       }
@@ -81,7 +81,7 @@ export default function SheetPreview({ selectedStoreId, liveLogs = [], syncStatu
     
     // If no sync is running, check historical logs from most recent session
     if (historicalLogs.length > 0) {
-      const historicalLog = historicalLogs.find(log => log.sku === sku);
+      const historicalLog = historicalLogs.find(log => log.sku === sku && log.kind === 'price');
       if (historicalLog) {
         return historicalLog.status; // Show the last sync result
       }
@@ -101,6 +101,30 @@ export default function SheetPreview({ selectedStoreId, liveLogs = [], syncStatu
             <CheckCircle className="mr-1" size={12} /> Updated
           </span>
         );
+      case 'planned':
+        return (
+          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+            <Eye className="mr-1" size={12} /> Planned
+          </span>
+        );
+      case 'unchanged':
+        return (
+          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+            <CheckCircle className="mr-1" size={12} /> Unchanged
+          </span>
+        );
+      case 'held':
+        return (
+          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-teal-100 text-teal-800">
+            <Clock className="mr-1" size={12} /> Awaiting Approval
+          </span>
+        );
+      case 'blocked':
+        return (
+          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+            <AlertTriangle className="mr-1" size={12} /> Blocked
+          </span>
+        );
       case 'pending':
         return (
           <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
@@ -113,6 +137,12 @@ export default function SheetPreview({ selectedStoreId, liveLogs = [], syncStatu
             <AlertTriangle className="mr-1" size={12} /> Not Found
           </span>
         );
+      case 'duplicate_sku':
+        return (
+          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+            <AlertTriangle className="mr-1" size={12} /> Duplicate SKU
+          </span>
+        );
       case 'error':
         return (
           <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
@@ -197,7 +227,7 @@ export default function SheetPreview({ selectedStoreId, liveLogs = [], syncStatu
                       ${row.variantPrice.toFixed(2)}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 bg-amber-50" data-testid="cell-compare-price">
-                      ${row.compareAtPrice.toFixed(2)}
+                      {row.compareAtPrice !== undefined ? `$${row.compareAtPrice.toFixed(2)}` : '—'}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap" data-testid="cell-status">
                       {getStatusBadge(row.sku)}
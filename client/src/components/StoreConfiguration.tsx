@@ -2,11 +2,15 @@ import { useState } from 'react';
 import { Store, Eye, EyeOff, Plug, ChevronDown, ChevronUp } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
-import { useMutation } from '@tanstack/react-query';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
+import DuplicateSkuReport from './DuplicateSkuReport';
 import type { Store as StoreType } from '@shared/schema';
 
+const concurrencyOptions = [1, 2, 4, 8, 16];
+
 interface StoreConfigurationProps {
   selectedStore?: StoreType;
 }
@@ -15,6 +19,67 @@ export default function StoreConfiguration({ selectedStore }: StoreConfiguration
   const [isExpanded, setIsExpanded] = useState(false);
   const [showToken, setShowToken] = useState(false);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const updateApiModeMutation = useMutation({
+    mutationFn: async ({ storeId, apiMode }: { storeId: string; apiMode: string }) => {
+      return apiRequest('PUT', `/api/stores/${storeId}`, { apiMode });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/stores'] });
+      toast({
+        title: 'Success',
+        description: 'Shopify API updated',
+      });
+    },
+    onError: () => {
+      toast({
+        title: 'Error',
+        description: 'Failed to update Shopify API',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const updateConcurrencyMutation = useMutation({
+    mutationFn: async ({ storeId, syncConcurrency }: { storeId: string; syncConcurrency: number }) => {
+      return apiRequest('PUT', `/api/stores/${storeId}`, { syncConcurrency });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/stores'] });
+      toast({
+        title: 'Success',
+        description: 'Sync concurrency updated',
+      });
+    },
+    onError: () => {
+      toast({
+        title: 'Error',
+        description: 'Failed to update sync concurrency',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const updateDuplicatePolicyMutation = useMutation({
+    mutationFn: async ({ storeId, duplicateSkuPolicy }: { storeId: string; duplicateSkuPolicy: string }) => {
+      return apiRequest('PUT', `/api/stores/${storeId}`, { duplicateSkuPolicy });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/stores'] });
+      toast({
+        title: 'Success',
+        description: 'Duplicate SKU handling updated',
+      });
+    },
+    onError: () => {
+      toast({
+        title: 'Error',
+        description: 'Failed to update duplicate SKU handling',
+        variant: 'destructive',
+      });
+    },
+  });
 
   const testConnectionMutation = useMutation({
     mutationFn: async (storeId: string) => {
@@ -119,6 +184,68 @@ export default function StoreConfiguration({ selectedStore }: StoreConfiguration
                 <p className="text-xs text-gray-500 mt-1">Private app access token with inventory permissions</p>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Shopify API</label>
+                <Select
+                  value={selectedStore.apiMode}
+                  onValueChange={(apiMode) => updateApiModeMutation.mutate({ storeId: selectedStore.id, apiMode })}
+                  disabled={updateApiModeMutation.isPending}
+                >
+                  <SelectTrigger className="w-64" data-testid="select-api-mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="rest">REST Admin API</SelectItem>
+                    <SelectItem value="graphql">GraphQL Admin API</SelectItem>
+                    <SelectItem value="bulk">GraphQL Bulk Operations (100k+ variants)</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-500 mt-1">GraphQL looks up SKUs directly and paces requests by query cost</p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Rows Processed at Once</label>
+                <Select
+                  value={selectedStore.syncConcurrency.toString()}
+                  onValueChange={(value) => updateConcurrencyMutation.mutate({ storeId: selectedStore.id, syncConcurrency: parseInt(value, 10) })}
+                  disabled={updateConcurrencyMutation.isPending}
+                >
+                  <SelectTrigger className="w-64" data-testid="select-sync-concurrency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {concurrencyOptions.map(option => (
+                      <SelectItem key={option} value={option.toString()}>
+                        {option === 1 ? '1 (one row at a time)' : option}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-500 mt-1">Requests are still paced to Shopify's rate limits; higher values mainly help GraphQL and Plus stores</p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Duplicate SKUs</label>
+                <Select
+                  value={selectedStore.duplicateSkuPolicy}
+                  onValueChange={(duplicateSkuPolicy) => updateDuplicatePolicyMutation.mutate({ storeId: selectedStore.id, duplicateSkuPolicy })}
+                  disabled={updateDuplicatePolicyMutation.isPending}
+                >
+                  <SelectTrigger className="w-64" data-testid="select-duplicate-sku-policy">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="flag">Skip and flag the row</SelectItem>
+                    <SelectItem value="update_all">Update every matching variant</SelectItem>
+                    <SelectItem value="prefer_active">Update the active product's variant</SelectItem>
+                    <SelectItem value="prefer_cached">Update the variant ID in the sheet</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-500 mt-1">Applies when a SKU matches several variants; a variant ID in the sheet picks that variant unless the catalog shows its SKU is shared</p>
+              </div>
+
+              <DuplicateSkuReport storeId={selectedStore.id} />
+
               <div className="flex items-center justify-between pt-4 border-t border-gray-100">
                 <div className="flex items-center space-x-2">
                   <div className="w-2 h-2 bg-green-500 rounded-full"></div>
@@ -1,18 +1,26 @@
+import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { RotateCcw, Square, Fan, Play, Box, CheckCircle, AlertTriangle, Clock } from 'lucide-react';
+import { RotateCcw, Square, Fan, Play, Box, CheckCircle, AlertTriangle, Clock, Eye, Equal, ShieldAlert, CalendarClock, Warehouse } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
-import type { GoogleSheet } from '@shared/schema';
+import type { GoogleSheet, Schedule, SyncLog, SyncSession } from '@shared/schema';
 
 interface SyncDashboardProps {
   selectedStoreId: string;
   syncStatus?: any;
 }
 
+const PLANNED_CHANGES_PAGE_SIZE = 500;
+
 export default function SyncDashboard({ selectedStoreId, syncStatus }: SyncDashboardProps) {
+  const [requireApproval, setRequireApproval] = useState(false);
+  const [approvalThreshold, setApprovalThreshold] = useState('20');
+  const [plannedLimit, setPlannedLimit] = useState(PLANNED_CHANGES_PAGE_SIZE);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -41,24 +49,80 @@ export default function SyncDashboard({ selectedStoreId, syncStatus }: SyncDashb
     refetchInterval: false,
   });
 
+  const { data: sessions = [] } = useQuery<SyncSession[]>({
+    queryKey: ['/api/sync/sessions', { storeId: selectedStoreId }],
+    queryFn: async () => {
+      const response = await fetch(`/api/sync/sessions?storeId=${selectedStoreId}`);
+      if (!response.ok) throw new Error('Failed to fetch sessions');
+      return response.json();
+    },
+    enabled: !!selectedStoreId,
+  });
+
+  const { data: schedules = [] } = useQuery<Schedule[]>({
+    queryKey: ['/api/schedules', { storeId: selectedStoreId }],
+    queryFn: async () => {
+      const response = await fetch(`/api/schedules?storeId=${selectedStoreId}`);
+      if (!response.ok) throw new Error('Failed to fetch schedules');
+      return response.json();
+    },
+    enabled: !!selectedStoreId,
+    refetchInterval: 60000, // next run moves forward after each scheduled run
+  });
+
+  const nextScheduledRun = schedules
+    .filter(schedule => schedule.isActive && schedule.nextRunAt)
+    .map(schedule => new Date(schedule.nextRunAt!))
+    .sort((a, b) => a.getTime() - b.getTime())[0];
+
+  // A completed dry run that hasn't been followed by another session is awaiting approval
+  const latestSession = sessions[0];
+  const pendingPreview = latestSession?.type === 'dry_run' && latestSession.status === 'completed'
+    ? latestSession
+    : undefined;
+
+  // Planned changes are paged, so large previews say how many of them are shown before anyone approves
+  const { data: plannedPage } = useQuery<{ logs: SyncLog[]; total: number }>({
+    queryKey: ['/api/sync/logs', pendingPreview?.id, 'planned', plannedLimit],
+    queryFn: async () => {
+      const response = await fetch(`/api/sync/logs/${pendingPreview!.id}?status=planned&limit=${plannedLimit}`);
+      if (!response.ok) return { logs: [], total: 0 };
+      const logs: SyncLog[] = await response.json();
+      return { logs, total: parseInt(response.headers.get('X-Total-Count') || '', 10) || logs.length };
+    },
+    enabled: !!pendingPreview?.id,
+    placeholderData: (previous) => previous,
+  });
+
+  const plannedChanges = plannedPage?.logs || [];
+  const plannedTotal = plannedPage?.total || 0;
+
   const status = syncStatus || currentStatus;
   // Use sheet SKU count if no sync is running, otherwise use sync status
   const totalSkus = status?.totalSkus || sheetSkuCount?.totalSkus || 0;
 
   const startSyncMutation = useMutation({
-    mutationFn: async () => {
+    mutationFn: async (dryRun: boolean) => {
       if (!primarySheet) throw new Error('No sheet configured');
+
+      const approvalThresholdPercent = requireApproval && !dryRun ? parseFloat(approvalThreshold) : undefined;
+      if (approvalThresholdPercent !== undefined && (isNaN(approvalThresholdPercent) || approvalThresholdPercent < 0)) {
+        throw new Error('Approval threshold must be a positive number');
+      }
+
       return apiRequest('POST', '/api/sync/start', {
         storeId: selectedStoreId,
         sheetId: primarySheet.id,
+        dryRun,
+        approvalThresholdPercent,
       });
     },
-    onSuccess: () => {
+    onSuccess: (_data, dryRun) => {
       queryClient.invalidateQueries({ queryKey: ['/api/sync/status', selectedStoreId] });
       queryClient.invalidateQueries({ queryKey: ['/api/sync/sessions', { storeId: selectedStoreId }] });
       toast({
         title: 'Success',
-        description: 'Sync started successfully',
+        description: dryRun ? 'Preview started successfully' : 'Sync started successfully',
       });
     },
     onError: (error) => {
@@ -92,7 +156,11 @@ export default function SyncDashboard({ selectedStoreId, syncStatus }: SyncDashb
   });
 
   const handleStartSync = () => {
-    startSyncMutation.mutate();
+    startSyncMutation.mutate(false);
+  };
+
+  const handlePreviewSync = () => {
+    startSyncMutation.mutate(true);
   };
 
   const handleStopSync = () => {
@@ -128,7 +196,9 @@ export default function SyncDashboard({ selectedStoreId, syncStatus }: SyncDashb
     ? Math.round((status.processedSkus / status.totalSkus) * 100)
     : 0;
 
-  const isRunning = (status?.status === 'running' || status?.type === 'sync_progress') || startSyncMutation.isPending;
+  const isQueued = status?.status === 'queued';
+  const isRunning = (status?.status === 'running' || isQueued || status?.type === 'sync_progress') || startSyncMutation.isPending;
+  const isPreviewing = status?.sessionType === 'dry_run';
 
   return (
     <Card className="mb-8">
@@ -141,6 +211,12 @@ export default function SyncDashboard({ selectedStoreId, syncStatus }: SyncDashb
             <div>
               <h3 className="text-lg font-semibold text-gray-900">Price Sync Dashboard</h3>
               <p className="text-sm text-gray-500">Monitor sync progress and manage operations</p>
+              {nextScheduledRun && (
+                <p className="text-xs text-gray-500 mt-1 flex items-center" data-testid="text-next-scheduled-run">
+                  <CalendarClock className="mr-1" size={12} />
+                  Next scheduled run: {nextScheduledRun.toLocaleString()}
+                </p>
+              )}
             </div>
           </div>
           
@@ -156,15 +232,26 @@ export default function SyncDashboard({ selectedStoreId, syncStatus }: SyncDashb
                 {stopSyncMutation.isPending ? 'Stopping...' : 'Stop Sync'}
               </Button>
             ) : (
-              <Button
-                className="bg-foxx-blue hover:bg-blue-700"
-                onClick={handleStartSync}
-                disabled={startSyncMutation.isPending || !primarySheet}
-                data-testid="button-start-sync"
-              >
-                <Play className="mr-2" size={16} />
-                {startSyncMutation.isPending ? 'Starting...' : 'Start Sync'}
-              </Button>
+              <>
+                <Button
+                  variant="outline"
+                  onClick={handlePreviewSync}
+                  disabled={startSyncMutation.isPending || !primarySheet}
+                  data-testid="button-preview-sync"
+                >
+                  <Eye className="mr-2" size={16} />
+                  Preview Changes
+                </Button>
+                <Button
+                  className="bg-foxx-blue hover:bg-blue-700"
+                  onClick={handleStartSync}
+                  disabled={startSyncMutation.isPending || !primarySheet}
+                  data-testid="button-start-sync"
+                >
+                  <Play className="mr-2" size={16} />
+                  {startSyncMutation.isPending ? 'Starting...' : 'Start Sync'}
+                </Button>
+              </>
             )}
             <Button 
               variant="outline" 
@@ -178,8 +265,29 @@ export default function SyncDashboard({ selectedStoreId, syncStatus }: SyncDashb
           </div>
         </div>
 
+        <div className="flex items-center space-x-3 mb-6 text-sm text-gray-600">
+          <Switch
+            checked={requireApproval}
+            onCheckedChange={setRequireApproval}
+            disabled={isRunning}
+            data-testid="switch-require-approval"
+          />
+          <span>Require approval for price changes over</span>
+          <Input
+            type="number"
+            min="0"
+            step="any"
+            className="w-20 h-8"
+            value={approvalThreshold}
+            onChange={(event) => setApprovalThreshold(event.target.value)}
+            disabled={!requireApproval || isRunning}
+            data-testid="input-approval-threshold"
+          />
+          <span>%</span>
+        </div>
+
         {/* Metrics Cards */}
-        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+        <div className="grid grid-cols-2 lg:grid-cols-7 gap-4 mb-6">
           <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
             <div className="flex items-center justify-between">
               <div>
@@ -195,14 +303,63 @@ export default function SyncDashboard({ selectedStoreId, syncStatus }: SyncDashb
           <div className="bg-green-50 border border-green-200 rounded-lg p-4">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-green-800">Updated</p>
+                <p className="text-sm font-medium text-green-800">Prices Updated</p>
                 <p className="text-2xl font-bold text-green-900" data-testid="metric-updated">
                   {status?.updatedSkus?.toLocaleString() || '0'}
                 </p>
+                {(status?.costUpdated ?? 0) > 0 && (
+                  <p className="text-xs text-green-700" data-testid="metric-cost-updated">
+                    {status.costUpdated.toLocaleString()} costs updated
+                  </p>
+                )}
+                {(status?.costErrors ?? 0) > 0 && (
+                  <p className="text-xs text-red-600" data-testid="metric-cost-errors">
+                    {status.costErrors.toLocaleString()} costs failed
+                  </p>
+                )}
+                {(status?.marketPricesUpdated ?? 0) > 0 && (
+                  <p className="text-xs text-green-700" data-testid="metric-market-prices-updated">
+                    {status.marketPricesUpdated.toLocaleString()} market prices updated
+                  </p>
+                )}
+                {(status?.marketPriceErrors ?? 0) > 0 && (
+                  <p className="text-xs text-red-600" data-testid="metric-market-price-errors">
+                    {status.marketPriceErrors.toLocaleString()} market prices failed
+                  </p>
+                )}
               </div>
               <CheckCircle className="text-green-600" size={24} />
             </div>
           </div>
+
+          <div className="bg-cyan-50 border border-cyan-200 rounded-lg p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-cyan-800">Stock Updated</p>
+                <p className="text-2xl font-bold text-cyan-900" data-testid="metric-inventory-updated">
+                  {status?.inventoryUpdated?.toLocaleString() || '0'}
+                </p>
+                {(status?.inventoryErrors ?? 0) > 0 && (
+                  <p className="text-xs text-red-600" data-testid="metric-inventory-errors">
+                    {status.inventoryErrors.toLocaleString()} failed
+                  </p>
+                )}
+              </div>
+              <Warehouse className="text-cyan-600" size={24} />
+            </div>
+          </div>
+
+          <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-700">Unchanged</p>
+                <p className="text-2xl font-bold text-gray-900" data-testid="metric-unchanged">
+                  {status?.unchangedSkus?.toLocaleString() || '0'}
+                </p>
+              </div>
+              <Equal className="text-gray-500" size={24} />
+            </div>
+          </div>
           
           <div className="bg-red-50 border border-red-200 rounded-lg p-4">
             <div className="flex items-center justify-between">
@@ -215,6 +372,18 @@ export default function SyncDashboard({ selectedStoreId, syncStatus }: SyncDashb
               <AlertTriangle className="text-red-600" size={24} />
             </div>
           </div>
+
+          <div className="bg-orange-50 border border-orange-200 rounded-lg p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-orange-800">Blocked</p>
+                <p className="text-2xl font-bold text-orange-900" data-testid="metric-blocked">
+                  {status?.blockedSkus?.toLocaleString() || '0'}
+                </p>
+              </div>
+              <ShieldAlert className="text-orange-600" size={24} />
+            </div>
+          </div>
           
           <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
             <div className="flex items-center justify-between">
@@ -242,7 +411,11 @@ export default function SyncDashboard({ selectedStoreId, syncStatus }: SyncDashb
           
           <div className="flex items-center justify-between text-sm text-gray-500">
             <span data-testid="text-sync-status">
-              {isRunning ? 'Syncing...' : status ? 'Completed' : 'Ready to sync'}
+              {isQueued
+                ? 'Waiting for a worker...'
+                : isRunning
+                ? (isPreviewing ? 'Previewing...' : status?.sessionType === 'rollback' ? 'Rolling back...' : status?.sessionType === 'approval' ? 'Applying approved changes...' : 'Syncing...')
+                : status ? 'Completed' : 'Ready to sync'}
             </span>
             <span data-testid="text-sync-detail">
               {status ? `${status.processedSkus} of ${status.totalSkus} processed` : 'Waiting to start'}
@@ -265,6 +438,88 @@ export default function SyncDashboard({ selectedStoreId, syncStatus }: SyncDashb
             </div>
           </div>
         )}
+
+        {/* Dry Run Preview */}
+        {!isRunning && pendingPreview && (
+          <div className="mt-6 pt-6 border-t border-gray-100" data-testid="dry-run-preview">
+            <div className="flex items-center justify-between mb-3">
+              <div>
+                <span className="text-sm font-medium text-gray-700">Planned Changes</span>
+                <p className="text-xs text-gray-500">
+                  {(pendingPreview.updatedSkus || 0).toLocaleString()} variants would be updated, {(pendingPreview.notFoundSkus || 0).toLocaleString()} SKUs not found
+                </p>
+              </div>
+              <Button
+                className="bg-foxx-green hover:bg-green-700"
+                onClick={handleStartSync}
+                disabled={startSyncMutation.isPending}
+                data-testid="button-approve-preview"
+              >
+                <CheckCircle className="mr-2" size={16} />
+                Approve & Run Sync
+              </Button>
+            </div>
+            <div className="max-h-64 overflow-y-auto border border-gray-200 rounded-lg">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">SKU</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Price</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Compare At</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Rule</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {plannedChanges.map(log => (
+                    <tr key={log.id} data-testid={`planned-change-${log.sku}`}>
+                      <td className="px-4 py-2 font-medium text-gray-900">{log.sku}</td>
+                      {log.kind === 'inventory' ? (
+                        <td colSpan={3} className="px-4 py-2 text-gray-600">
+                          Stock at location {log.locationId}: {log.oldQuantity ?? '—'} → {log.newQuantity}
+                        </td>
+                      ) : log.kind === 'market' ? (
+                        <td colSpan={3} className="px-4 py-2 text-gray-600">
+                          Price list {log.priceListId}: {log.oldPrice ? parseFloat(log.oldPrice).toFixed(2) : '—'} → {parseFloat(log.newPrice || '0').toFixed(2)} {log.currency}
+                        </td>
+                      ) : log.kind === 'cost' ? (
+                        <td colSpan={3} className="px-4 py-2 text-gray-600">
+                          Unit cost: {log.oldCost ? `$${parseFloat(log.oldCost).toFixed(2)}` : '—'} → ${parseFloat(log.newCost || '0').toFixed(2)}
+                        </td>
+                      ) : (
+                        <>
+                          <td className="px-4 py-2 text-gray-600">
+                            ${parseFloat(log.oldPrice || '0').toFixed(2)} → ${parseFloat(log.newPrice || '0').toFixed(2)}
+                          </td>
+                          <td className="px-4 py-2 text-gray-600">
+                            ${parseFloat(log.oldComparePrice || '0').toFixed(2)} → ${parseFloat(log.newComparePrice || '0').toFixed(2)}
+                          </td>
+                          <td className="px-4 py-2 text-xs text-gray-500">
+                            {log.pricingRule ? `$${parseFloat(log.sheetPrice || '0').toFixed(2)}: ${log.pricingRule}` : '—'}
+                          </td>
+                        </>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {plannedChanges.length < plannedTotal && (
+              <div className="flex items-center justify-between mt-2">
+                <p className="text-xs text-amber-700" data-testid="text-planned-changes-shown">
+                  Showing {plannedChanges.length.toLocaleString()} of {plannedTotal.toLocaleString()} planned changes; approving runs all of them
+                </p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPlannedLimit(plannedLimit + PLANNED_CHANGES_PAGE_SIZE)}
+                  data-testid="button-load-more-planned"
+                >
+                  Show More
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
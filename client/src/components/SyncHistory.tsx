@@ -1,7 +1,20 @@
-import { useQuery } from '@tanstack/react-query';
-import { History, Clock, Play } from 'lucide-react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { History, Clock, Play, Undo2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
 import type { SyncSession } from '@shared/schema';
 
 interface SyncHistoryProps {
@@ -9,6 +22,9 @@ interface SyncHistoryProps {
 }
 
 export default function SyncHistory({ selectedStoreId }: SyncHistoryProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
   const { data: sessions = [] } = useQuery<SyncSession[]>({
     queryKey: ['/api/sync/sessions', { storeId: selectedStoreId }],
     queryFn: async () => {
@@ -19,6 +35,61 @@ export default function SyncHistory({ selectedStoreId }: SyncHistoryProps) {
     enabled: !!selectedStoreId,
   });
 
+  const rollbackMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      return apiRequest('POST', `/api/sync/sessions/${sessionId}/rollback`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sync/status', selectedStoreId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/sync/sessions', { storeId: selectedStoreId }] });
+      toast({
+        title: 'Success',
+        description: 'Rollback started successfully',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to start rollback',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const resumeMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      return apiRequest('POST', `/api/sync/sessions/${sessionId}/resume`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sync/status', selectedStoreId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/sync/sessions', { storeId: selectedStoreId }] });
+      toast({
+        title: 'Success',
+        description: 'Sync resumed successfully',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to resume sync',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const canResume = (session: SyncSession) => {
+    return (session.type === 'sync' || session.type === 'dry_run')
+      && ['stopped', 'failed', 'interrupted'].includes(session.status)
+      && (session.processedSkus || 0) < (session.totalSkus || 0);
+  };
+
+  const canRollback = (session: SyncSession) => {
+    return session.type !== 'dry_run'
+      && session.status !== 'running'
+      && session.status !== 'queued'
+      && (session.updatedSkus || 0) > 0;
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       month: 'short',
@@ -35,9 +106,14 @@ export default function SyncHistory({ selectedStoreId }: SyncHistoryProps) {
       case 'failed':
         return 'text-red-600 bg-red-100';
       case 'stopped':
+      case 'interrupted':
         return 'text-amber-600 bg-amber-100';
+      case 'aborted':
+        return 'text-orange-600 bg-orange-100';
       case 'running':
         return 'text-blue-600 bg-blue-100';
+      case 'queued':
+        return 'text-indigo-600 bg-indigo-100';
       default:
         return 'text-gray-600 bg-gray-100';
     }
@@ -79,13 +155,71 @@ export default function SyncHistory({ selectedStoreId }: SyncHistoryProps) {
                     <span className={`text-xs px-2 py-1 rounded-full ${getStatusColor(session.status)}`}>
                       {session.status}
                     </span>
+                    {session.type === 'dry_run' && (
+                      <span className="text-xs px-2 py-1 rounded-full text-blue-600 bg-blue-50 border border-blue-200" data-testid="session-type">
+                        preview
+                      </span>
+                    )}
+                    {session.type === 'rollback' && (
+                      <span className="text-xs px-2 py-1 rounded-full text-purple-600 bg-purple-50 border border-purple-200" data-testid="session-type">
+                        rollback
+                      </span>
+                    )}
+                    {session.type === 'approval' && (
+                      <span className="text-xs px-2 py-1 rounded-full text-teal-600 bg-teal-50 border border-teal-200" data-testid="session-type">
+                        approved changes
+                      </span>
+                    )}
                     <span className="text-sm text-gray-600" data-testid="session-date">
                       {formatDate(session.startedAt || '')}
                     </span>
                   </div>
-                  <Button variant="ghost" size="sm" data-testid={`button-view-session-${session.id}`}>
-                    View Details
-                  </Button>
+                  <div className="flex items-center space-x-1">
+                    {canResume(session) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => resumeMutation.mutate(session.id)}
+                        disabled={resumeMutation.isPending}
+                        data-testid={`button-resume-session-${session.id}`}
+                      >
+                        <Play className="mr-1" size={14} />
+                        Resume
+                      </Button>
+                    )}
+                    {canRollback(session) && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={rollbackMutation.isPending}
+                            data-testid={`button-rollback-session-${session.id}`}
+                          >
+                            <Undo2 className="mr-1" size={14} />
+                            Rollback
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Roll back this sync?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              {(session.updatedSkus || 0).toLocaleString()} variants will be restored to the prices they had before this session ran.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => rollbackMutation.mutate(session.id)}>
+                              Rollback
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
+                    <Button variant="ghost" size="sm" data-testid={`button-view-session-${session.id}`}>
+                      View Details
+                    </Button>
+                  </div>
                 </div>
                 
                 <div className="grid grid-cols-2 gap-4 text-sm">
@@ -96,17 +230,74 @@ export default function SyncHistory({ selectedStoreId }: SyncHistoryProps) {
                     </span>
                   </div>
                   <div>
-                    <span className="text-gray-500">Updated:</span>
+                    <span className="text-gray-500">Prices Updated:</span>
                     <span className="ml-1 font-medium text-green-600" data-testid="session-updated-skus">
                       {session.updatedSkus?.toLocaleString() || '0'}
                     </span>
                   </div>
+                  <div>
+                    <span className="text-gray-500">Unchanged:</span>
+                    <span className="ml-1 font-medium text-gray-600" data-testid="session-unchanged-skus">
+                      {session.unchangedSkus?.toLocaleString() || '0'}
+                    </span>
+                  </div>
                   <div>
                     <span className="text-gray-500">Not Found:</span>
                     <span className="ml-1 font-medium text-amber-600" data-testid="session-not-found-skus">
                       {session.notFoundSkus?.toLocaleString() || '0'}
                     </span>
                   </div>
+                  <div>
+                    <span className="text-gray-500">Awaiting Approval:</span>
+                    <span className="ml-1 font-medium text-teal-600" data-testid="session-held-skus">
+                      {session.heldSkus?.toLocaleString() || '0'}
+                    </span>
+                  </div>
+                  <div>
+                    <span className="text-gray-500">Blocked:</span>
+                    <span className="ml-1 font-medium text-orange-600" data-testid="session-blocked-skus">
+                      {session.blockedSkus?.toLocaleString() || '0'}
+                    </span>
+                  </div>
+                  <div>
+                    <span className="text-gray-500">Stock Updated:</span>
+                    <span className="ml-1 font-medium text-cyan-600" data-testid="session-inventory-updated">
+                      {session.inventoryUpdated?.toLocaleString() || '0'}
+                    </span>
+                    {(session.inventoryErrors ?? 0) > 0 && (
+                      <span className="ml-1 text-red-600" data-testid="session-inventory-errors">
+                        ({session.inventoryErrors} failed)
+                      </span>
+                    )}
+                  </div>
+                  <div>
+                    <span className="text-gray-500">Costs Updated:</span>
+                    <span className="ml-1 font-medium text-green-600" data-testid="session-cost-updated">
+                      {session.costUpdated?.toLocaleString() || '0'}
+                    </span>
+                    {(session.costErrors ?? 0) > 0 && (
+                      <span className="ml-1 text-red-600" data-testid="session-cost-errors">
+                        ({session.costErrors} failed)
+                      </span>
+                    )}
+                  </div>
+                  <div>
+                    <span className="text-gray-500">Market Prices Updated:</span>
+                    <span className="ml-1 font-medium text-green-600" data-testid="session-market-prices-updated">
+                      {session.marketPricesUpdated?.toLocaleString() || '0'}
+                    </span>
+                    {(session.marketPriceErrors ?? 0) > 0 && (
+                      <span className="ml-1 text-red-600" data-testid="session-market-price-errors">
+                        ({session.marketPriceErrors} failed)
+                      </span>
+                    )}
+                  </div>
+                  <div>
+                    <span className="text-gray-500">Duplicate SKUs:</span>
+                    <span className="ml-1 font-medium text-purple-600" data-testid="session-duplicate-skus">
+                      {session.duplicateSkus?.toLocaleString() || '0'}
+                    </span>
+                  </div>
                   <div>
                     <span className="text-gray-500">Errors:</span>
                     <span className="ml-1 font-medium text-red-600" data-testid="session-error-count">
@@ -0,0 +1,177 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { CalendarClock, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { GoogleSheet, Schedule } from '@shared/schema';
+
+interface SyncSchedulesProps {
+  sheet: GoogleSheet;
+}
+
+const presets: { label: string; expression: string }[] = [
+  { label: 'Hourly', expression: '0 * * * *' },
+  { label: 'Daily 6:00', expression: '0 6 * * *' },
+  { label: 'Weekdays 9:00', expression: '0 9 * * 1-5' },
+  { label: 'Weekly Mon 6:00', expression: '0 6 * * 1' },
+];
+
+export default function SyncSchedules({ sheet }: SyncSchedulesProps) {
+  const [cronExpression, setCronExpression] = useState('0 6 * * *');
+  const [dryRun, setDryRun] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: schedules = [] } = useQuery<Schedule[]>({
+    queryKey: ['/api/schedules', { storeId: sheet.storeId }],
+    queryFn: async () => {
+      const response = await fetch(`/api/schedules?storeId=${sheet.storeId}`);
+      if (!response.ok) throw new Error('Failed to fetch schedules');
+      return response.json();
+    },
+  });
+
+  const sheetSchedules = schedules.filter(schedule => schedule.sheetId === sheet.id);
+
+  const invalidateSchedules = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/schedules'] });
+  };
+
+  const createScheduleMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest('POST', '/api/schedules', { sheetId: sheet.id, cronExpression, dryRun });
+    },
+    onSuccess: () => {
+      invalidateSchedules();
+      toast({
+        title: 'Success',
+        description: 'Schedule created',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to create schedule',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const updateScheduleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      return apiRequest('PUT', `/api/schedules/${id}`, { isActive });
+    },
+    onSuccess: invalidateSchedules,
+    onError: () => {
+      toast({
+        title: 'Error',
+        description: 'Failed to update schedule',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteScheduleMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest('DELETE', `/api/schedules/${id}`);
+    },
+    onSuccess: invalidateSchedules,
+    onError: () => {
+      toast({
+        title: 'Error',
+        description: 'Failed to delete schedule',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const formatDate = (date: string | Date | null) => date ? new Date(date).toLocaleString() : '—';
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4" data-testid="sync-schedules">
+      <div className="flex items-center space-x-2">
+        <CalendarClock className="text-gray-500" size={16} />
+        <span className="text-sm font-medium text-gray-900">Scheduled Syncs</span>
+      </div>
+
+      {sheetSchedules.length > 0 && (
+        <div className="space-y-2">
+          {sheetSchedules.map(schedule => (
+            <div key={schedule.id} className="flex items-center justify-between text-sm border border-gray-100 rounded p-2" data-testid={`schedule-${schedule.id}`}>
+              <div>
+                <div className="font-mono text-gray-900">
+                  {schedule.cronExpression}
+                  {schedule.dryRun && <span className="ml-2 text-xs text-blue-600">preview</span>}
+                </div>
+                <div className="text-xs text-gray-500">
+                  Next: {schedule.isActive ? formatDate(schedule.nextRunAt) : 'paused'} · Last: {formatDate(schedule.lastRunAt)}
+                </div>
+                {schedule.lastError && (
+                  <div className="text-xs text-amber-600" data-testid={`schedule-error-${schedule.id}`}>{schedule.lastError}</div>
+                )}
+              </div>
+              <div className="flex items-center space-x-2">
+                <Switch
+                  checked={schedule.isActive}
+                  onCheckedChange={(isActive) => updateScheduleMutation.mutate({ id: schedule.id, isActive })}
+                  data-testid={`switch-schedule-active-${schedule.id}`}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteScheduleMutation.mutate(schedule.id)}
+                  disabled={deleteScheduleMutation.isPending}
+                  data-testid={`button-delete-schedule-${schedule.id}`}
+                >
+                  <Trash2 size={14} />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex flex-wrap gap-2">
+          {presets.map(preset => (
+            <Button
+              key={preset.expression}
+              variant="outline"
+              size="sm"
+              onClick={() => setCronExpression(preset.expression)}
+              data-testid={`button-schedule-preset-${preset.expression}`}
+            >
+              {preset.label}
+            </Button>
+          ))}
+        </div>
+        <div className="flex items-center space-x-2">
+          <Input
+            value={cronExpression}
+            placeholder="minute hour day month weekday"
+            className="font-mono"
+            onChange={(event) => setCronExpression(event.target.value)}
+            data-testid="input-schedule-cron"
+          />
+          <div className="flex items-center space-x-1 text-xs text-gray-600 whitespace-nowrap">
+            <Switch checked={dryRun} onCheckedChange={setDryRun} data-testid="switch-schedule-dry-run" />
+            <span>Preview only</span>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => createScheduleMutation.mutate()}
+            disabled={!cronExpression.trim() || createScheduleMutation.isPending}
+            data-testid="button-add-schedule"
+          >
+            <Plus className="mr-1" size={14} />
+            Add
+          </Button>
+        </div>
+        <p className="text-xs text-gray-500">Cron format in server time. Runs are skipped while another sync for this store is in progress.</p>
+      </div>
+    </div>
+  );
+}
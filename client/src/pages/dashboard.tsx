@@ -1,9 +1,12 @@
 import { useState, useCallback } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import Header from '@/components/Header';
 import StoreConfiguration from '@/components/StoreConfiguration';
 import GoogleSheetsConfiguration from '@/components/GoogleSheetsConfiguration';
+import PricingRules from '@/components/PricingRules';
+import Guardrails from '@/components/Guardrails';
 import SyncDashboard from '@/components/SyncDashboard';
+import PendingApprovals from '@/components/PendingApprovals';
 import LiveActivityLogs from '@/components/LiveActivityLogs';
 import SyncHistory from '@/components/SyncHistory';
 import SheetPreview from '@/components/SheetPreview';
@@ -14,6 +17,7 @@ export default function Dashboard() {
   const [selectedStoreId, setSelectedStoreId] = useState<string>('');
   const [liveLogs, setLiveLogs] = useState<SyncLog[]>([]);
   const [syncStatus, setSyncStatus] = useState<any>(null);
+  const queryClient = useQueryClient();
 
   // Fetch stores
   const { data: stores = [] } = useQuery<Store[]>({
@@ -32,9 +36,12 @@ export default function Dashboard() {
       case 'sync_complete':
       case 'sync_error':
         setSyncStatus(null);
+        // Pick up the finished session (e.g. a dry run awaiting approval)
+        queryClient.invalidateQueries({ queryKey: ['/api/sync/sessions'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/approvals'] });
         break;
     }
-  }, []);
+  }, [queryClient]);
 
   useWebSocket(handleWebSocketMessage);
 
@@ -66,12 +73,23 @@ export default function Dashboard() {
           <GoogleSheetsConfiguration selectedStoreId={selectedStoreId} />
         </div>
 
+        {/* Pricing Rules and Guardrails - keyed so the forms reset when switching stores */}
+        {selectedStore && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+            <PricingRules key={`pricing-${selectedStoreId}`} selectedStore={selectedStore} />
+            <Guardrails key={`guardrails-${selectedStoreId}`} selectedStore={selectedStore} />
+          </div>
+        )}
+
         {/* Sync Dashboard */}
         <SyncDashboard 
           selectedStoreId={selectedStoreId}
           syncStatus={syncStatus}
         />
 
+        {/* Changes held for review */}
+        {selectedStoreId && <PendingApprovals key={selectedStoreId} selectedStoreId={selectedStoreId} />}
+
         {/* Live Activity and History */}
         <div className="grid grid-cols-1 xl:grid-cols-3 gap-6 mb-8">
           <div className="xl:col-span-2">
@@ -1,6 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { syncWorker } from "./services/syncWorker";
+import { schedulerService } from "./services/scheduler";
 
 const app = express();
 app.use(express.json());
@@ -67,5 +69,16 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+
+    // The web server only enqueues sync jobs; unless dedicated worker processes run them
+    // (see server/worker.ts), this process works the queue as well
+    if (process.env.SYNC_WORKER !== 'external') {
+      syncWorker.start({
+        concurrency: parseInt(process.env.SYNC_WORKER_CONCURRENCY || '4', 10),
+        autoResume: process.env.SYNC_AUTO_RESUME === 'true',
+      });
+    }
+
+    schedulerService.start();
   });
 })();
@@ -3,9 +3,11 @@ import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
 import { storage } from "./storage";
 import { syncService } from "./services/syncService";
-import { ShopifyService } from "./services/shopify";
+import { createShopifyClient } from "./services/shopify";
 import { GoogleSheetsService } from "./services/googleSheets";
-import { insertStoreSchema, insertGoogleSheetSchema } from "@shared/schema";
+import { computeNextRun } from "./services/scheduler";
+import { parseCron } from "./services/cron";
+import { insertStoreSchema, insertGoogleSheetSchema, insertScheduleSchema, approvalDecisionSchema, defaultColumnMapping } from "@shared/schema";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
@@ -13,6 +15,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // WebSocket server for real-time updates
   const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
 
+  // Sync updates come from whichever process runs the job
+  syncService.startEventRelay();
+
   wss.on('connection', (ws: WebSocket) => {
     console.log('WebSocket client connected');
     syncService.addWebSocketClient(ws);
@@ -73,7 +78,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: 'Store not found' });
       }
 
-      const shopify = new ShopifyService(store.shopifyUrl, store.accessToken);
+      const shopify = createShopifyClient(store);
       const isConnected = await shopify.testConnection();
       
       res.json({ connected: isConnected });
@@ -82,6 +87,66 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Locations quantity columns can be mapped to
+  app.get('/api/stores/:id/locations', async (req, res) => {
+    try {
+      const { id } = req.params;
+      const store = await storage.getStore(id);
+
+      if (!store) {
+        return res.status(404).json({ error: 'Store not found' });
+      }
+
+      const shopify = createShopifyClient(store);
+      const locations = await shopify.getLocations();
+
+      res.json(locations);
+    } catch (error) {
+      console.error('Failed to load Shopify locations:', error);
+      res.status(500).json({ error: 'Failed to load Shopify locations' });
+    }
+  });
+
+  // Market price lists fixed price columns can be mapped to (GraphQL stores only)
+  app.get('/api/stores/:id/price-lists', async (req, res) => {
+    try {
+      const { id } = req.params;
+      const store = await storage.getStore(id);
+
+      if (!store) {
+        return res.status(404).json({ error: 'Store not found' });
+      }
+
+      const shopify = createShopifyClient(store);
+      const priceLists = await shopify.getPriceLists();
+
+      res.json(priceLists);
+    } catch (error) {
+      console.error('Failed to load Shopify price lists:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to load Shopify price lists' });
+    }
+  });
+
+  // Every SKU carried by more than one variant, read from the whole catalog rather than a sheet
+  app.get('/api/stores/:id/duplicate-skus', async (req, res) => {
+    try {
+      const { id } = req.params;
+      const store = await storage.getStore(id);
+
+      if (!store) {
+        return res.status(404).json({ error: 'Store not found' });
+      }
+
+      const shopify = createShopifyClient(store);
+      const duplicates = await shopify.getDuplicateSkus();
+
+      res.json(duplicates);
+    } catch (error) {
+      console.error('Failed to load duplicate SKUs:', error);
+      res.status(500).json({ error: 'Failed to load duplicate SKUs' });
+    }
+  });
+
   // Google Sheets routes
   app.get('/api/sheets', async (req, res) => {
     try {
@@ -105,6 +170,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.put('/api/sheets/:id', async (req, res) => {
+    try {
+      const { id } = req.params;
+      const sheetData = insertGoogleSheetSchema.partial().parse(req.body);
+      const sheet = await storage.updateGoogleSheet(id, sheetData);
+
+      if (!sheet) {
+        return res.status(404).json({ error: 'Sheet not found' });
+      }
+
+      res.json(sheet);
+    } catch (error) {
+      console.error('Sheet validation error:', error);
+      res.status(400).json({ error: 'Failed to update sheet', details: error });
+    }
+  });
+
+  // Read the header row so columns can be mapped
+  app.get('/api/sheets/:id/columns', async (req, res) => {
+    const { id } = req.params;
+    try {
+      const sheet = await storage.getGoogleSheet(id);
+      
+      if (!sheet) {
+        return res.status(404).json({ error: 'Sheet not found' });
+      }
+
+      const googleSheets = new GoogleSheetsService(sheet.serviceAccountJson || undefined);
+      const columns = await googleSheets.getColumns(sheet.sheetId, sheet.sheetName || undefined);
+      
+      res.json(columns);
+    } catch (error) {
+      console.error(`Error reading columns for sheet ${id}:`, error);
+      res.status(500).json({ error: 'Failed to read sheet columns' });
+    }
+  });
+
   // Test Google Sheets access
   app.post('/api/sheets/:id/test-access', async (req, res) => {
     try {
@@ -135,7 +237,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const googleSheets = new GoogleSheetsService(sheet.serviceAccountJson || undefined);
-      const data = await googleSheets.getSheetData(sheet.sheetId, sheet.sheetName);
+      const data = await googleSheets.getSheetData(sheet.sheetId, sheet.sheetName, sheet.columnMapping || defaultColumnMapping);
       
       // Return first 10 rows for preview
       res.json(data.slice(0, 10));
@@ -156,7 +258,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const googleSheets = new GoogleSheetsService(sheet.serviceAccountJson || undefined);
-      const data = await googleSheets.getSheetData(sheet.sheetId, sheet.sheetName);
+      const data = await googleSheets.getSheetData(sheet.sheetId, sheet.sheetName, sheet.columnMapping || defaultColumnMapping);
       
       res.json({ totalSkus: data.length });
     } catch (error) {
@@ -165,16 +267,90 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Schedule routes
+  app.get('/api/schedules', async (req, res) => {
+    try {
+      const { storeId } = req.query;
+      const schedules = await storage.getSchedules(storeId as string | undefined);
+      res.json(schedules);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch schedules' });
+    }
+  });
+
+  app.post('/api/schedules', async (req, res) => {
+    try {
+      const sheet = await storage.getGoogleSheet(req.body.sheetId);
+      if (!sheet) {
+        return res.status(404).json({ error: 'Sheet not found' });
+      }
+
+      // The store always follows the sheet
+      const scheduleData = insertScheduleSchema.parse({ ...req.body, storeId: sheet.storeId });
+      parseCron(scheduleData.cronExpression);
+
+      const schedule = await storage.createSchedule({
+        ...scheduleData,
+        nextRunAt: computeNextRun({ cronExpression: scheduleData.cronExpression, isActive: scheduleData.isActive ?? true }),
+      });
+      res.json(schedule);
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid schedule data' });
+    }
+  });
+
+  app.put('/api/schedules/:id', async (req, res) => {
+    try {
+      const { id } = req.params;
+      const existing = await storage.getSchedule(id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Schedule not found' });
+      }
+
+      // A schedule stays attached to its sheet; create a new one to sync a different sheet
+      const { storeId, sheetId, ...scheduleData } = insertScheduleSchema.partial().parse(req.body);
+      if (scheduleData.cronExpression) {
+        parseCron(scheduleData.cronExpression);
+      }
+
+      const updated = { ...existing, ...scheduleData };
+      const schedule = await storage.updateSchedule(id, {
+        ...scheduleData,
+        nextRunAt: computeNextRun(updated),
+      });
+      res.json(schedule);
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to update schedule' });
+    }
+  });
+
+  app.delete('/api/schedules/:id', async (req, res) => {
+    try {
+      const { id } = req.params;
+      await storage.deleteSchedule(id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to delete schedule' });
+    }
+  });
+
   // Sync routes
   app.post('/api/sync/start', async (req, res) => {
     try {
-      const { storeId, sheetId } = req.body;
+      const { storeId, sheetId, dryRun, approvalThresholdPercent } = req.body;
       
       if (!storeId || !sheetId) {
         return res.status(400).json({ error: 'Store ID and Sheet ID are required' });
       }
 
-      const sessionId = await syncService.startSync(storeId, sheetId);
+      if (approvalThresholdPercent !== undefined && (typeof approvalThresholdPercent !== 'number' || approvalThresholdPercent < 0)) {
+        return res.status(400).json({ error: 'Approval threshold must be a non-negative number' });
+      }
+
+      const sessionId = await syncService.startSync(storeId, sheetId, {
+        dryRun: dryRun === true,
+        approvalThresholdPercent,
+      });
       res.json({ sessionId });
     } catch (error) {
       res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to start sync' });
@@ -232,10 +408,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post('/api/sync/sessions/:id/resume', async (req, res) => {
+    try {
+      const { id } = req.params;
+      const sessionId = await syncService.resumeSync(id);
+      res.json({ sessionId });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to resume sync' });
+    }
+  });
+
+  app.post('/api/sync/sessions/:id/rollback', async (req, res) => {
+    try {
+      const { id } = req.params;
+      const sessionId = await syncService.startRollback(id);
+      res.json({ sessionId });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to start rollback' });
+    }
+  });
+
   app.get('/api/sync/logs/:sessionId', async (req, res) => {
     try {
       const { sessionId } = req.params;
-      const { limit } = req.query;
+      const { limit, status } = req.query;
+
+      // Filtered by status, logs come in sheet order with the full count, so callers can tell a page from all of them
+      if (status) {
+        const [logs, total] = await Promise.all([
+          storage.getSyncLogsByStatus(sessionId, status as string, limit ? parseInt(limit as string) : undefined),
+          storage.countSyncLogsByStatus(sessionId, status as string),
+        ]);
+        res.set('X-Total-Count', total.toString());
+        return res.json(logs);
+      }
+
       const logs = await storage.getSyncLogs(sessionId, limit ? parseInt(limit as string) : undefined);
       res.json(logs);
     } catch (error) {
@@ -243,6 +450,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Approval routes
+  app.get('/api/approvals', async (req, res) => {
+    try {
+      const { storeId, status } = req.query;
+      const changes = await storage.getPendingChanges(storeId as string | undefined, (status as string) || 'pending');
+      res.json(changes);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch approvals' });
+    }
+  });
+
+  // Approves or rejects one or more pending changes; approved ones are applied once their store is idle
+  app.post('/api/approvals', async (req, res) => {
+    let decision;
+    try {
+      decision = approvalDecisionSchema.parse(req.body);
+    } catch (error) {
+      return res.status(400).json({ error: 'Invalid approval request', details: error });
+    }
+
+    try {
+      const changes = await storage.getPendingChangesByIds(decision.ids);
+      const reviewable = changes.filter(change => change.status === 'pending');
+
+      const updated = await storage.updatePendingChanges(reviewable.map(change => change.id), {
+        status: decision.action === 'approve' ? 'approved' : 'rejected',
+        reviewedAt: new Date(),
+      });
+
+      const sessionIds: string[] = [];
+      if (decision.action === 'approve') {
+        for (const storeId of Array.from(new Set(updated.map(change => change.storeId)))) {
+          const sessionId = await syncService.applyApprovedChanges(storeId);
+          if (sessionId) sessionIds.push(sessionId);
+        }
+      }
+
+      res.json({ updated: updated.length, skipped: decision.ids.length - updated.length, sessionIds });
+    } catch (error) {
+      console.error('Error reviewing pending changes:', error);
+      res.status(500).json({ error: 'Failed to update approvals' });
+    }
+  });
+
   // Recent logs for live activity
   app.get('/api/sync/logs/recent', async (req, res) => {
     try {
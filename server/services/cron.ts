@@ -0,0 +1,127 @@
+// Minimal five-field cron parser (minute hour day-of-month month day-of-week), evaluated in server time.
+// Supports '*', lists (1,15), ranges (1-5), steps (*/15, 10-50/10) and day-of-week 0-7 (0 and 7 are Sunday).
+
+interface CronField {
+  values: Set<number>;
+  restricted: boolean; // false for '*' and '*/n', which matters for the day-of-month / day-of-week rule
+}
+
+export interface CronSchedule {
+  minutes: CronField;
+  hours: CronField;
+  daysOfMonth: CronField;
+  months: CronField;
+  daysOfWeek: CronField;
+}
+
+const FIELD_RANGES: [number, number][] = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+// Nothing matches further out than this (e.g. '0 0 31 2 *'), so the search gives up instead of looping forever
+const MAX_SEARCH_DAYS = 366 * 5;
+
+function parseField(field: string, [min, max]: [number, number]): CronField {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : parseInt(stepPart, 10);
+
+    if (isNaN(step) || step < 1 || (stepPart !== undefined && !/^\d+$/.test(stepPart))) {
+      throw new Error(`Invalid step in cron field "${field}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else if (/^\d+-\d+$/.test(rangePart)) {
+      [start, end] = rangePart.split('-').map(value => parseInt(value, 10));
+    } else if (/^\d+$/.test(rangePart)) {
+      start = parseInt(rangePart, 10);
+      end = stepPart === undefined ? start : max;
+    } else {
+      throw new Error(`Invalid cron field "${field}"`);
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new Error(`Cron field "${field}" is out of range ${min}-${max}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return { values, restricted: !field.startsWith('*') };
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('Cron expression must have 5 fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => parseField(field, FIELD_RANGES[index]));
+
+  if (daysOfWeek.values.has(7)) {
+    daysOfWeek.values.add(0);
+  }
+
+  return { minutes, hours, daysOfMonth, months, daysOfWeek };
+}
+
+// Standard cron: when both day fields are restricted a day matches either of them
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const domMatch = schedule.daysOfMonth.values.has(date.getDate());
+  const dowMatch = schedule.daysOfWeek.values.has(date.getDay());
+
+  if (schedule.daysOfMonth.restricted && schedule.daysOfWeek.restricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+// First matching minute strictly after `from`
+export function getNextRun(expression: string | CronSchedule, from: Date = new Date()): Date {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression;
+  const date = new Date(from.getTime());
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  const limit = from.getTime() + MAX_SEARCH_DAYS * 24 * 60 * 60 * 1000;
+
+  while (date.getTime() <= limit) {
+    if (!schedule.months.values.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!schedule.hours.values.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+
+    if (!schedule.minutes.values.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    return date;
+  }
+
+  throw new Error(`Cron expression "${typeof expression === 'string' ? expression : 'schedule'}" never matches`);
+}
@@ -1,17 +1,131 @@
 import { google } from 'googleapis';
+import { defaultColumnMapping, matchColumnFor, parseColumnLetterReference, type ColumnMapping } from '@shared/schema';
+import { getRateLimiter, type TokenBucket } from './rateLimiter';
 
 export interface SheetRowData {
-  sku: string;
+  sku: string; // identifies the row in logs; the match value when the sheet has no SKU column
   variantPrice: number;
-  compareAtPrice: number;
+  compareAtPrice?: number; // left out when no compare-at column is mapped, so Shopify's value is kept
   row: number;
+  variantId?: string; // written back by an earlier sync (may be stale), or the match key itself
+  barcode?: string;
+  handle?: string;
+  optionValues?: string[]; // in option order, for handle + option matching
+  quantities?: Record<string, number>; // Shopify location ID -> available quantity; blank cells are left out
+  cost?: number; // unit cost; left out when the cell is blank
+  marketPrices?: Record<string, number>; // Shopify price list ID -> fixed price; blank cells are left out
+  extra?: Record<string, string>;
+}
+
+export interface SheetColumn {
+  letter: string;
+  header: string;
+}
+
+// Column letters the sync writes to (null when that write-back isn't mapped)
+export interface SheetWriteColumns {
+  variantId: string | null;
+  status: string | null;
+  oldPrice: string | null;
+  syncedAt: string | null;
+}
+
+export interface SheetStatusUpdate {
+  status: string;
+  oldPrice?: string | number | null;
+  syncedAt: Date;
+}
+
+interface CellWrite {
+  range: string;
+  values: any[][];
+}
+
+// Row write-backs are buffered and sent as one batchUpdate every flushRows rows or flushIntervalMs
+export interface WriteBufferOptions {
+  flushRows: number;
+  flushIntervalMs: number;
+  // Called with the sheet rows whose writes were lost when a flush fails
+  onFlushError?: (error: unknown, rows: number[]) => Promise<void> | void;
+}
+
+interface BufferedWrite {
+  sheetId: string;
+  rowIndex: number;
+  write: CellWrite;
+}
+
+// Sheets API quota per project and user (a service account is one user); the burst is kept small
+// because Google counts requests per minute rather than refilling continuously
+const SHEETS_REQUESTS_PER_MINUTE = parseInt(process.env.GOOGLE_SHEETS_REQUESTS_PER_MINUTE || '', 10) || 60;
+const SHEETS_BURST = Math.max(1, Math.floor(SHEETS_REQUESTS_PER_MINUTE / 6));
+
+const defaultWriteBufferOptions: WriteBufferOptions = {
+  flushRows: parseInt(process.env.SHEET_WRITE_FLUSH_ROWS || '', 10) || 200,
+  flushIntervalMs: parseInt(process.env.SHEET_WRITE_FLUSH_INTERVAL_MS || '', 10) || 15000,
+};
+
+export function columnLetterToIndex(letter: string): number {
+  let index = 0;
+  for (const char of letter.toUpperCase()) {
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+export function columnIndexToLetter(index: number): string {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+}
+
+// Resolves a mapping reference against the header row: header names win, then explicit "Column D" references.
+// Bare letters are only taken as columns on a sheet without headers.
+function resolveColumn(reference: string | undefined, headers: string[]): number | null {
+  if (!reference) return null;
+
+  const wanted = reference.trim().toLowerCase();
+  const headerIndex = headers.findIndex(header => header?.toString().trim().toLowerCase() === wanted);
+  if (headerIndex >= 0) {
+    return headerIndex;
+  }
+
+  const letter = parseColumnLetterReference(reference);
+  if (letter) {
+    return columnLetterToIndex(letter);
+  }
+
+  const hasHeaders = headers.some(header => header?.toString().trim());
+  if (!hasHeaders && /^[A-Za-z]{1,3}$/.test(reference.trim())) {
+    return columnLetterToIndex(reference.trim());
+  }
+
+  return null;
+}
+
+function parsePrice(value: any): number {
+  return parseFloat(value?.toString().replace(/[$,]/g, '') || '0');
+}
+
+// Whole units only; blank or non-numeric cells mean "don't touch this location"
+function parseQuantity(value: any): number | null {
+  const text = value?.toString().replace(/,/g, '').trim();
+  return text && /^-?\d+$/.test(text) ? parseInt(text, 10) : null;
+}
+
+// Accepts numeric IDs as well as GIDs pasted from the admin (gid://shopify/ProductVariant/123)
+function parseVariantId(value: any): string | undefined {
+  return value?.toString().trim().match(/^(?:gid:\/\/shopify\/ProductVariant\/)?(\d+)$/)?.[1];
 }
 
 interface GoogleSheetsQueueItem {
-  operation: 'get' | 'update';
+  operation: 'get' | 'update' | 'batchUpdate';
   sheetId: string;
   range: string;
   values?: any[][];
+  data?: CellWrite[];
   resolve: (value: any) => void;
   reject: (error: any) => void;
 }
@@ -20,7 +134,12 @@ export class GoogleSheetsService {
   private sheets: any;
   private requestQueue: GoogleSheetsQueueItem[] = [];
   private isProcessingQueue = false;
-  private queueDelay = 500; // 500ms between Google Sheets requests
+  private rateLimiter: TokenBucket;
+  private writeBuffer: BufferedWrite[] = [];
+  private bufferedRows = new Set<string>();
+  private writeBufferOptions: WriteBufferOptions = { ...defaultWriteBufferOptions };
+  private flushTimer: NodeJS.Timeout | null = null;
+  private pendingFlush: Promise<void> = Promise.resolve();
 
   constructor(serviceAccountJson?: string) {
     let credentials;
@@ -49,6 +168,12 @@ export class GoogleSheetsService {
     });
 
     this.sheets = google.sheets({ version: 'v4', auth });
+
+    // Quota is per Google project, so every sheet read with the same project shares one bucket
+    this.rateLimiter = getRateLimiter(`google-sheets:${credentials.project_id || credentials.client_email || 'default'}`, {
+      capacity: SHEETS_BURST,
+      refillPerSecond: SHEETS_REQUESTS_PER_MINUTE / 60,
+    });
   }
 
   private async processQueue(): Promise<void> {
@@ -62,9 +187,8 @@ export class GoogleSheetsService {
       const item = this.requestQueue.shift()!;
       
       try {
-        // Add delay between requests (queue system)
-        await new Promise(resolve => setTimeout(resolve, this.queueDelay));
-        
+        await this.rateLimiter.acquire();
+
         let result;
         if (item.operation === 'get') {
           result = await this.sheets.spreadsheets.values.get({
@@ -80,10 +204,22 @@ export class GoogleSheetsService {
               values: item.values
             }
           });
+        } else if (item.operation === 'batchUpdate') {
+          result = await this.sheets.spreadsheets.values.batchUpdate({
+            spreadsheetId: item.sheetId,
+            requestBody: {
+              valueInputOption: 'RAW',
+              data: item.data,
+            }
+          });
         }
         
         item.resolve(result);
       } catch (error) {
+        // Quota exceeded: hold everything sharing the project until the bucket refills
+        if ((error as { response?: { status?: number } }).response?.status === 429) {
+          this.rateLimiter.drain();
+        }
         item.reject(error);
       }
     }
@@ -107,6 +243,80 @@ export class GoogleSheetsService {
     });
   }
 
+  private async queueBatchUpdate(sheetId: string, data: CellWrite[]): Promise<any> {
+    return new Promise((resolve, reject) => {
+      this.requestQueue.push({
+        operation: 'batchUpdate',
+        sheetId,
+        range: '',
+        data,
+        resolve,
+        reject
+      });
+
+      this.processQueue();
+    });
+  }
+
+  configureWriteBuffer(options: Partial<WriteBufferOptions>): void {
+    this.writeBufferOptions = { ...this.writeBufferOptions, ...options };
+  }
+
+  private bufferWrites(sheetId: string, rowIndex: number, writes: CellWrite[]): void {
+    for (const write of writes) {
+      this.writeBuffer.push({ sheetId, rowIndex, write });
+    }
+    this.bufferedRows.add(`${sheetId}:${rowIndex}`);
+
+    if (this.bufferedRows.size >= this.writeBufferOptions.flushRows) {
+      void this.flushWrites();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => void this.flushWrites(), this.writeBufferOptions.flushIntervalMs);
+    }
+  }
+
+  // Sends everything buffered so far; resolves once all earlier flushes have finished too
+  async flushWrites(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    const writes = this.writeBuffer;
+    this.writeBuffer = [];
+    this.bufferedRows.clear();
+
+    if (writes.length > 0) {
+      this.pendingFlush = this.pendingFlush.then(() => this.writeBufferedBatch(writes));
+    }
+
+    return this.pendingFlush;
+  }
+
+  private async writeBufferedBatch(writes: BufferedWrite[]): Promise<void> {
+    const bySheet = new Map<string, BufferedWrite[]>();
+    for (const write of writes) {
+      bySheet.set(write.sheetId, [...(bySheet.get(write.sheetId) || []), write]);
+    }
+
+    for (const [sheetId, sheetWrites] of Array.from(bySheet.entries())) {
+      const rows = Array.from(new Set(sheetWrites.map(write => write.rowIndex)));
+
+      try {
+        await this.queueBatchUpdate(sheetId, sheetWrites.map(write => write.write));
+        console.log(`Flushed ${sheetWrites.length} cell write(s) for ${rows.length} row(s) to sheet ${sheetId}`);
+      } catch (error) {
+        console.error(`Error flushing ${sheetWrites.length} cell write(s) to sheet ${sheetId}:`, error);
+
+        try {
+          await this.writeBufferOptions.onFlushError?.(error, rows);
+        } catch (callbackError) {
+          console.error('Error reporting failed sheet flush:', callbackError);
+        }
+      }
+    }
+  }
+
   async testAccess(sheetId: string): Promise<boolean> {
     try {
       await this.sheets.spreadsheets.get({
@@ -119,30 +329,134 @@ export class GoogleSheetsService {
     }
   }
 
-  async getSheetData(sheetId: string, sheetName: string = 'Sheet1'): Promise<SheetRowData[]> {
+  async getColumns(sheetId: string, sheetName: string = 'Sheet1'): Promise<SheetColumn[]> {
+    try {
+      const response = await this.queueRequest('get', sheetId, `${sheetName}!1:1`);
+      const headers: any[] = response.data.values?.[0] || [];
+
+      return headers.map((header, index) => ({
+        letter: columnIndexToLetter(index),
+        header: header?.toString().trim() || '',
+      }));
+    } catch (error) {
+      console.error(`Error reading header row of sheet ${sheetId}:`, error);
+      throw error;
+    }
+  }
+
+  async getSheetData(sheetId: string, sheetName: string = 'Sheet1', mapping: ColumnMapping = defaultColumnMapping): Promise<SheetRowData[]> {
     try {
       // Get all data from the sheet using queue
-      const response = await this.queueRequest('get', sheetId, `${sheetName}!A:D`);
+      const response = await this.queueRequest('get', sheetId, sheetName);
 
       const rows = response.data.values || [];
+      const headers: string[] = rows[0] || [];
       const data: SheetRowData[] = [];
 
+      // A mapped column missing from the header row fails the read rather than leaving a silent gap
+      const findColumn = (reference: string | undefined) => {
+        const column = resolveColumn(reference, headers);
+        if (reference && column === null) {
+          throw new Error(`Header "${reference}" not found in sheet ${sheetName}`);
+        }
+        return column;
+      };
+
+      const skuColumn = findColumn(mapping.sku);
+      const priceColumn = findColumn(mapping.price);
+      const compareAtColumn = findColumn(mapping.compareAtPrice);
+      const costColumn = findColumn(mapping.cost);
+      // Syncs add the variant ID header the first time they write one back, so it may not exist yet
+      const variantIdColumn = mapping.matchKey === 'variant_id'
+        ? findColumn(mapping.variantId)
+        : resolveColumn(mapping.variantId, headers);
+      const barcodeColumn = findColumn(mapping.barcode);
+      const handleColumn = findColumn(mapping.handle);
+      const optionColumns = (mapping.options || [])
+        .map(reference => findColumn(reference))
+        .filter((column): column is number => column !== null);
+      const quantityColumns = Object.entries(mapping.quantities || {})
+        .map(([locationId, reference]) => [locationId, findColumn(reference)] as const)
+        .filter((entry): entry is readonly [string, number] => entry[1] !== null);
+      const marketPriceColumns = Object.entries(mapping.marketPrices || {})
+        .map(([priceListId, reference]) => [priceListId, findColumn(reference)] as const)
+        .filter((entry): entry is readonly [string, number] => entry[1] !== null);
+      const extraColumns = Object.entries(mapping.extra || {})
+        .map(([field, reference]) => [field, findColumn(reference)] as const)
+        .filter((entry): entry is readonly [string, number] => entry[1] !== null);
+
+      // Rows are read by the column their match key compares, which need not be the SKU
+      const matchColumnName = matchColumnFor(mapping.matchKey);
+      const matchColumn = { sku: skuColumn, barcode: barcodeColumn, handle: handleColumn, variantId: variantIdColumn }[matchColumnName];
+
+      if (matchColumn === null || priceColumn === null) {
+        throw new Error(`Column mapping does not match sheet ${sheetName}: ${matchColumnName} or price column not found`);
+      }
+
+      const cell = (row: any[], column: number | null) => column === null ? '' : row[column]?.toString().trim() ?? '';
+
       // Skip header row and process data
       for (let i = 1; i < rows.length; i++) {
         const row = rows[i];
         
-        if (row.length >= 3 && row[0]) { // SKU must exist
-          const sku = row[0].toString().trim();
-          const variantPrice = parseFloat(row[1]?.toString().replace(/[$,]/g, '') || '0');
-          const compareAtPrice = parseFloat(row[2]?.toString().replace(/[$,]/g, '') || '0');
-
-          if (sku && variantPrice > 0) {
-            data.push({
-              sku,
+        if (row[matchColumn]) { // match value must exist
+          const matchValue = matchColumnName === 'variantId' ? parseVariantId(row[matchColumn]) || '' : cell(row, matchColumn);
+          const optionValues = optionColumns.map(column => cell(row, column));
+          const variantPrice = parsePrice(row[priceColumn]);
+          const compareAtPrice = compareAtColumn === null ? undefined : parsePrice(row[compareAtColumn]);
+
+          if (matchValue && variantPrice > 0) {
+            const rowData: SheetRowData = {
+              // Handle rows are told apart in logs by their option values
+              sku: cell(row, skuColumn) || [matchValue, ...optionValues.filter(Boolean)].join(' / '),
               variantPrice,
               compareAtPrice,
               row: i + 1, // 1-based row number
-            });
+            };
+
+            const variantId = variantIdColumn === null ? undefined : parseVariantId(row[variantIdColumn]);
+            if (variantId) {
+              rowData.variantId = variantId;
+            }
+
+            if (barcodeColumn !== null && cell(row, barcodeColumn)) {
+              rowData.barcode = cell(row, barcodeColumn);
+            }
+
+            if (handleColumn !== null && cell(row, handleColumn)) {
+              rowData.handle = cell(row, handleColumn);
+              rowData.optionValues = optionValues;
+            }
+
+            if (costColumn !== null && cell(row, costColumn)) {
+              const cost = parsePrice(row[costColumn]);
+              if (!isNaN(cost) && cost >= 0) {
+                rowData.cost = cost;
+              }
+            }
+
+            const quantities = quantityColumns
+              .map(([locationId, column]) => [locationId, parseQuantity(row[column])] as const)
+              .filter((entry): entry is readonly [string, number] => entry[1] !== null);
+            if (quantities.length > 0) {
+              rowData.quantities = Object.fromEntries(quantities);
+            }
+
+            const marketPrices = marketPriceColumns
+              .filter(([, column]) => cell(row, column))
+              .map(([priceListId, column]) => [priceListId, parsePrice(row[column])] as const)
+              .filter(([, price]) => price > 0);
+            if (marketPrices.length > 0) {
+              rowData.marketPrices = Object.fromEntries(marketPrices);
+            }
+
+            if (extraColumns.length > 0) {
+              rowData.extra = Object.fromEntries(
+                extraColumns.map(([field, column]) => [field, row[column]?.toString() ?? ''])
+              );
+            }
+
+            data.push(rowData);
           }
         }
       }
@@ -154,39 +468,78 @@ export class GoogleSheetsService {
     }
   }
 
-  async updateSheetHeader(sheetId: string, sheetName: string = 'Sheet1'): Promise<void> {
+  // Makes sure every write-back column has a header and returns their letters
+  async updateSheetHeader(sheetId: string, sheetName: string = 'Sheet1', mapping: ColumnMapping = defaultColumnMapping): Promise<SheetWriteColumns> {
+    const writeColumns: SheetWriteColumns = { variantId: null, status: null, oldPrice: null, syncedAt: null };
+    const references: [keyof SheetWriteColumns, string | undefined, string][] = [
+      ['variantId', mapping.variantId, 'ID'],
+      ['status', mapping.statusColumns?.status, 'Sync Status'],
+      ['oldPrice', mapping.statusColumns?.oldPrice, 'Old Price'],
+      ['syncedAt', mapping.statusColumns?.syncedAt, 'Synced At'],
+    ];
+
+    if (references.every(([, reference]) => !reference)) {
+      return writeColumns;
+    }
+
     try {
-      // Check if D1 already has "ID" header using queue
-      const headerResponse = await this.queueRequest('get', sheetId, `${sheetName}!D1`);
-
-      const headerValue = headerResponse.data.values?.[0]?.[0];
-      if (headerValue !== 'ID') {
-        // Add ID header to D1 using queue
-        await this.queueRequest('update', sheetId, `${sheetName}!D1`, [['ID']]);
-        console.log('Added ID header to column D');
+      const headerResponse = await this.queueRequest('get', sheetId, `${sheetName}!1:1`);
+      const headers: string[] = headerResponse.data.values?.[0] || [];
+      const newHeaders: CellWrite[] = [];
+
+      for (const [key, reference, defaultHeader] of references) {
+        if (!reference) continue;
+
+        let column = resolveColumn(reference, headers);
+        let header = defaultHeader;
+
+        if (column === null) {
+          // A header name that isn't in the sheet yet goes into the first free column
+          column = headers.length;
+          header = reference;
+        }
+
+        const letter = columnIndexToLetter(column);
+        if (!headers[column]) {
+          headers[column] = header;
+          newHeaders.push({ range: `${sheetName}!${letter}1`, values: [[header]] });
+        }
+
+        writeColumns[key] = letter;
       }
+
+      if (newHeaders.length > 0) {
+        await this.queueBatchUpdate(sheetId, newHeaders);
+        console.log(`Added ${newHeaders.length} header(s) to sheet ${sheetName}`);
+      }
+
+      return writeColumns;
     } catch (error) {
       console.error('Error updating sheet header:', error);
       throw new Error('Failed to update sheet header');
     }
   }
 
-  async updateVariantId(sheetId: string, sheetName: string, rowIndex: number, variantId: string): Promise<void> {
-    try {
-      // Use queue system for updating variant ID
-      await this.queueRequest('update', sheetId, `${sheetName}!D${rowIndex}`, [[variantId]]);
-    } catch (error) {
-      console.error(`Error updating variant ID for row ${rowIndex}:`, error);
-      // Don't throw error - continue sync even if ID update fails
-    }
+  // Buffered - the write reaches the sheet on the next flush
+  async updateVariantId(sheetId: string, sheetName: string, rowIndex: number, variantId: string, column: string = 'D'): Promise<void> {
+    this.bufferWrites(sheetId, rowIndex, [{ range: `${sheetName}!${column}${rowIndex}`, values: [[variantId]] }]);
   }
 
-  async updateSheetStatus(sheetId: string, sku: string, status: string, sheetName: string = 'Sheet1'): Promise<void> {
-    try {
-      // This would require write permissions - for now just log
-      console.log(`Would update ${sku} status to ${status} in sheet ${sheetId}`);
-    } catch (error) {
-      console.error(`Error updating sheet status for ${sku}:`, error);
+  async updateSheetStatus(sheetId: string, sheetName: string, rowIndex: number, update: SheetStatusUpdate, columns: SheetWriteColumns): Promise<void> {
+    const data: CellWrite[] = [];
+
+    if (columns.status) {
+      data.push({ range: `${sheetName}!${columns.status}${rowIndex}`, values: [[update.status]] });
+    }
+    if (columns.oldPrice) {
+      data.push({ range: `${sheetName}!${columns.oldPrice}${rowIndex}`, values: [[update.oldPrice ?? '']] });
+    }
+    if (columns.syncedAt) {
+      data.push({ range: `${sheetName}!${columns.syncedAt}${rowIndex}`, values: [[update.syncedAt.toISOString()]] });
+    }
+
+    if (data.length > 0) {
+      this.bufferWrites(sheetId, rowIndex, data);
     }
   }
 }
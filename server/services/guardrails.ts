@@ -0,0 +1,47 @@
+import type { Guardrails } from '@shared/schema';
+import type { ShopifyVariant } from './shopify';
+import { toCents } from './prices';
+
+function formatCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+// Returns why the update must not be written, or null when it passes every configured guardrail
+export function checkGuardrails(guardrails: Guardrails | null | undefined, variant: ShopifyVariant, price: number, compareAtPrice?: number): string | null {
+  if (!guardrails?.enabled) {
+    return null;
+  }
+
+  const newCents = toCents(price) ?? 0;
+  const oldCents = toCents(variant.price);
+
+  if (guardrails.blockZeroPrices && newCents <= 0) {
+    return 'Price would be zero';
+  }
+
+  const floorCents = toCents(guardrails.minPrice);
+  if (floorCents !== null && newCents < floorCents) {
+    return `Price ${formatCents(newCents)} is below the floor of ${formatCents(floorCents)}`;
+  }
+
+  // Percent limits need a current price to compare against
+  if (oldCents) {
+    const changePercent = (newCents - oldCents) / oldCents * 100;
+
+    if (guardrails.maxIncreasePercent !== undefined && changePercent > guardrails.maxIncreasePercent) {
+      return `Price increase of ${changePercent.toFixed(1)}% (${formatCents(oldCents)} → ${formatCents(newCents)}) exceeds ${guardrails.maxIncreasePercent}%`;
+    }
+
+    if (guardrails.maxDecreasePercent !== undefined && -changePercent > guardrails.maxDecreasePercent) {
+      return `Price decrease of ${(-changePercent).toFixed(1)}% (${formatCents(oldCents)} → ${formatCents(newCents)}) exceeds ${guardrails.maxDecreasePercent}%`;
+    }
+  }
+
+  // A compare-at of 0 clears it, which is always allowed
+  const compareAtCents = toCents(compareAtPrice);
+  if (guardrails.requireCompareAtAbovePrice && compareAtCents && compareAtCents < newCents) {
+    return `Compare-at price ${formatCents(compareAtCents)} is below price ${formatCents(newCents)}`;
+  }
+
+  return null;
+}
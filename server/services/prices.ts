@@ -0,0 +1,48 @@
+import type { ShopifyVariant } from './shopify';
+
+// Prices are compared in integer cents so that "19.9", "19.90" and 19.899999 all match
+export function toCents(value: string | number | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+
+  const parsed = typeof value === 'number' ? value : parseFloat(value);
+  if (isNaN(parsed)) {
+    return null;
+  }
+
+  return Math.round(parsed * 100);
+}
+
+export function pricesEqual(a: string | number | null | undefined, b: string | number | null | undefined): boolean {
+  return toCents(a) === toCents(b);
+}
+
+// Shopify reports a missing compare-at price as null while the sheet reports it as 0
+function compareAtPricesEqual(a: string | number | null | undefined, b: string | number | null | undefined): boolean {
+  return (toCents(a) || null) === (toCents(b) || null);
+}
+
+export function hasPriceChanged(variant: ShopifyVariant, price: number, compareAtPrice?: number): boolean {
+  if (!pricesEqual(variant.price, price)) {
+    return true;
+  }
+
+  // An omitted compare-at price is never written, so it can't be a change
+  if (compareAtPrice === undefined) {
+    return false;
+  }
+
+  return !compareAtPricesEqual(variant.compare_at_price, compareAtPrice);
+}
+
+// Signed change from the current price; null when there is no current price to compare against
+export function priceChangePercent(oldPrice: string | number | null | undefined, newPrice: string | number): number | null {
+  const oldCents = toCents(oldPrice);
+  const newCents = toCents(newPrice);
+  if (!oldCents || newCents === null) {
+    return null;
+  }
+
+  return (newCents - oldCents) / oldCents * 100;
+}
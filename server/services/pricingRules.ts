@@ -0,0 +1,89 @@
+import type { PricingRules } from '@shared/schema';
+import { toCents } from './prices';
+
+export interface PricingResult {
+  price: number;
+  compareAtPrice?: number; // undefined leaves Shopify's compare-at price unchanged
+  // Human-readable summary of the steps that were applied, null when the store has no active rules
+  appliedRule: string | null;
+}
+
+function fromCents(cents: number): number {
+  return cents / 100;
+}
+
+// Smallest price ending in the given cents (e.g. 99) that is not below the input
+function roundUpToEnding(cents: number, ending: number): number {
+  return Math.ceil((cents - ending) / 100) * 100 + ending;
+}
+
+function applyRounding(cents: number, rounding: PricingRules['rounding']): number {
+  switch (rounding) {
+    case '0.99':
+      return roundUpToEnding(cents, 99);
+    case '0.95':
+      return roundUpToEnding(cents, 95);
+    case 'whole':
+      return Math.round(cents / 100) * 100;
+    default:
+      return cents;
+  }
+}
+
+// Cost-based rules need the row's cost; callers check usesCost() and skip rows without one
+export function usesCost(rules: PricingRules | null | undefined): boolean {
+  return !!rules?.enabled && rules.basis === 'cost';
+}
+
+export function applyPricingRules(rules: PricingRules | null | undefined, sheetPrice: number, sheetCompareAtPrice: number | undefined, cost?: number): PricingResult {
+  if (!rules?.enabled) {
+    return { price: sheetPrice, compareAtPrice: sheetCompareAtPrice, appliedRule: null };
+  }
+
+  const steps: string[] = [];
+  let cents = toCents(sheetPrice) ?? 0;
+
+  if (usesCost(rules) && cost !== undefined) {
+    cents = toCents(cost) ?? 0;
+    steps.push(`cost ${cost.toFixed(2)}`);
+  }
+
+  if (rules.markupPercent) {
+    cents = Math.round(cents * (1 + rules.markupPercent / 100));
+    steps.push(`markup ${rules.markupPercent}%`);
+  }
+
+  if (rules.fixedAddOn) {
+    cents += toCents(rules.fixedAddOn) ?? 0;
+    steps.push(`add ${rules.fixedAddOn.toFixed(2)}`);
+  }
+
+  if (rules.rounding && rules.rounding !== 'none') {
+    cents = applyRounding(cents, rules.rounding);
+    steps.push(`round ${rules.rounding === 'whole' ? 'whole' : rules.rounding.slice(1)}`);
+  }
+
+  // Limits are checked after rounding so they always hold; only recorded when they kick in
+  const minCents = toCents(rules.minPrice);
+  const maxCents = toCents(rules.maxPrice);
+  if (minCents !== null && cents < minCents) {
+    cents = minCents;
+    steps.push(`min ${fromCents(minCents).toFixed(2)}`);
+  }
+  if (maxCents !== null && cents > maxCents) {
+    cents = maxCents;
+    steps.push(`max ${fromCents(maxCents).toFixed(2)}`);
+  }
+
+  let compareAtPrice = sheetCompareAtPrice;
+  if (rules.compareAtFactor) {
+    compareAtPrice = fromCents(Math.round(cents * rules.compareAtFactor));
+    steps.push(`compare-at x${rules.compareAtFactor}`);
+  }
+
+  return {
+    price: fromCents(cents),
+    compareAtPrice,
+    appliedRule: steps.length > 0 ? steps.join(', ') : null,
+  };
+}
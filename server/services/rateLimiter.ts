@@ -0,0 +1,76 @@
+// Token buckets shared by every client that spends the same API budget in this process,
+// e.g. all syncs for one Shopify shop or all sheets read with one Google project's service account
+
+export interface TokenBucketOptions {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export class TokenBucket {
+  private capacity: number;
+  private refillPerSecond: number;
+  private tokens: number;
+  private updatedAt = Date.now();
+  private waiting: Promise<void> = Promise.resolve();
+
+  constructor({ capacity, refillPerSecond }: TokenBucketOptions) {
+    this.capacity = capacity;
+    this.refillPerSecond = refillPerSecond;
+    this.tokens = capacity;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) / 1000) * this.refillPerSecond);
+    this.updatedAt = now;
+  }
+
+  // Resolves once `cost` tokens have been taken; callers are served in the order they asked
+  acquire(cost: number = 1): Promise<void> {
+    const turn = this.waiting.then(() => this.take(cost));
+    this.waiting = turn.catch(() => undefined);
+    return turn;
+  }
+
+  private async take(cost: number): Promise<void> {
+    // A request costing more than the whole bucket goes out once the bucket is full
+    const needed = Math.min(cost, this.capacity);
+
+    for (;;) {
+      this.refill();
+      if (this.tokens >= needed) {
+        this.tokens -= needed;
+        return;
+      }
+
+      const waitMs = Math.ceil(((needed - this.tokens) / this.refillPerSecond) * 1000);
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+    }
+  }
+
+  // Replaces the local estimate with what the API reported as still available
+  sync(available: number, capacity: number = this.capacity, refillPerSecond: number = this.refillPerSecond): void {
+    this.capacity = capacity;
+    this.refillPerSecond = refillPerSecond;
+    this.tokens = Math.max(0, Math.min(capacity, available));
+    this.updatedAt = Date.now();
+  }
+
+  // The API said the budget is spent (e.g. a 429); wait for a refill before the next request
+  drain(): void {
+    this.tokens = 0;
+    this.updatedAt = Date.now();
+  }
+}
+
+const buckets = new Map<string, TokenBucket>();
+
+// Options only apply when the bucket is created; later calls share the existing one
+export function getRateLimiter(key: string, options: TokenBucketOptions): TokenBucket {
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    bucket = new TokenBucket(options);
+    buckets.set(key, bucket);
+  }
+  return bucket;
+}
@@ -0,0 +1,97 @@
+import { storage } from '../storage';
+import { syncService } from './syncService';
+import { getNextRun } from './cron';
+import type { Schedule } from '@shared/schema';
+
+const SCHEDULER_INTERVAL_MS = 30 * 1000;
+
+// Inactive schedules have no next run, so getDueSchedules never picks them up
+export function computeNextRun(schedule: Pick<Schedule, 'cronExpression' | 'isActive'>, from: Date = new Date()): Date | null {
+  if (!schedule.isActive) {
+    return null;
+  }
+
+  try {
+    return getNextRun(schedule.cronExpression, from);
+  } catch (error) {
+    console.error(`Invalid cron expression "${schedule.cronExpression}":`, error);
+    return null;
+  }
+}
+
+export class SchedulerService {
+  private timer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.runDueSchedules();
+    }, SCHEDULER_INTERVAL_MS);
+
+    // Runs missed while the server was down fire once on startup
+    this.runDueSchedules();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async runDueSchedules(): Promise<void> {
+    // A slow tick (e.g. a hanging database) must not overlap the next one
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    try {
+      const now = new Date();
+      const dueSchedules = await storage.getDueSchedules(now);
+
+      for (const schedule of dueSchedules) {
+        await this.runSchedule(schedule, now);
+      }
+    } catch (error) {
+      console.error('Error running scheduled syncs:', error);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  private async runSchedule(schedule: Schedule, now: Date): Promise<void> {
+    // Always advance, so a run that can't start isn't retried on every tick
+    const nextRunAt = computeNextRun(schedule, now);
+
+    // Every web replica runs a scheduler; only the one whose claim advances the schedule starts the sync
+    const claimed = await storage.claimSchedule(schedule.id, schedule.nextRunAt!, { lastRunAt: now, nextRunAt });
+    if (!claimed) {
+      return;
+    }
+
+    try {
+      // startSync refuses to start while the store already has a sync running, which skips overlapping runs
+      const sessionId = await syncService.startSync(schedule.storeId, schedule.sheetId, {
+        dryRun: schedule.dryRun,
+        approvalThresholdPercent: schedule.approvalThresholdPercent ? parseFloat(schedule.approvalThresholdPercent) : undefined,
+      });
+
+      await storage.updateSchedule(schedule.id, {
+        lastSessionId: sessionId,
+        lastError: null,
+      });
+
+      console.log(`Scheduled sync ${schedule.id} started session ${sessionId}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.warn(`Scheduled sync ${schedule.id} skipped: ${message}`);
+
+      await storage.updateSchedule(schedule.id, {
+        lastError: message,
+      });
+    }
+  }
+}
+
+export const schedulerService = new SchedulerService();
@@ -1,9 +1,21 @@
+import type { Store } from '@shared/schema';
+import { ShopifyGraphQLService } from './shopifyGraphql';
+import { MAX_RETRIES, getRetryCounter, getRetryDelay, isRetryableStatus, parseCallLimit } from './shopifyRetry';
+import { getRateLimiter, type TokenBucket } from './rateLimiter';
+import { VariantCatalog, type VariantLookup } from './variantMatching';
+
 export interface ShopifyVariant {
   id: string;
   sku: string;
   price: string;
   compare_at_price?: string;
   product_id: string;
+  inventory_item_id?: string;
+  product_status?: string; // 'active', 'draft' or 'archived'
+  barcode?: string;
+  handle?: string; // the product's handle
+  options?: string[]; // option values in option order
+  cost?: string | null; // inventory item unit cost, when the backend returns it with the variant
 }
 
 export interface ShopifyProduct {
@@ -11,83 +23,203 @@ export interface ShopifyProduct {
   variants: ShopifyVariant[];
 }
 
-interface QueueItem {
-  endpoint: string;
-  method: string;
-  body?: any;
-  resolve: (value: any) => void;
-  reject: (error: any) => void;
+export interface VariantPriceUpdate {
+  variantId: string;
+  productId?: string;
+  price: number;
+  compareAtPrice?: number | null;
+}
+
+export interface VariantPriceUpdateResult {
+  variantId: string;
+  variant?: ShopifyVariant;
+  error?: string;
+}
+
+export interface ShopifyLocation {
+  id: string;
+  name: string;
+  active: boolean;
+}
+
+// Sets the available quantity of one inventory item at one location
+export interface InventoryQuantityUpdate {
+  locationId: string;
+  quantity: number;
+  compareQuantity?: number; // the quantity read before the sync; the write fails if it changed since
+}
+
+export interface InventoryQuantityResult {
+  locationId: string;
+  error?: string;
 }
 
-export class ShopifyService {
+// A market's price list; fixed prices in it override the converted base price in that market
+export interface ShopifyPriceList {
+  id: string;
+  name: string;
+  currency: string;
+  catalog?: string; // title of the catalog (usually the market) using the price list
+}
+
+// Sets one variant's fixed price in one price list
+export interface FixedPriceUpdate {
+  priceListId: string;
+  price: number;
+  currency: string;
+}
+
+export interface FixedPriceResult {
+  priceListId: string;
+  error?: string;
+}
+
+// A SKU carried by more than one variant in the store
+export interface DuplicateSku {
+  sku: string;
+  variants: ShopifyVariant[];
+}
+
+// Common surface of the REST and GraphQL Admin API backends
+export interface ShopifyClient {
+  testConnection(): Promise<boolean>;
+  findVariants(lookup: VariantLookup): Promise<ShopifyVariant[]>;
+  // Whether findVariants answers this lookup from the loaded catalog rather than a request per row
+  resolvesFromCatalog(lookup: VariantLookup): boolean;
+  // The variant behind an ID cached in the sheet, read the same way findVariants would answer `lookup`;
+  // null when it no longer exists
+  findCachedVariant(variantId: string, lookup: VariantLookup): Promise<ShopifyVariant | null>;
+  getDuplicateSkus(): Promise<DuplicateSku[]>;
+  getVariant(variantId: string): Promise<ShopifyVariant>;
+  updateVariantPrice(variantId: string, price: number, compareAtPrice?: number | null): Promise<ShopifyVariant>;
+  updateVariantPrices(updates: VariantPriceUpdate[]): Promise<VariantPriceUpdateResult[]>;
+  getLocations(): Promise<ShopifyLocation[]>;
+  // Available quantity per location ID; locations where the item isn't stocked are missing
+  getInventoryLevels(inventoryItemId: string): Promise<Map<string, number>>;
+  setInventoryQuantities(inventoryItemId: string, updates: InventoryQuantityUpdate[]): Promise<InventoryQuantityResult[]>;
+  getInventoryItemCost(inventoryItemId: string): Promise<string | null>;
+  // Resolves with the cost Shopify stored
+  updateInventoryItemCost(inventoryItemId: string, cost: number): Promise<string | null>;
+  getPriceLists(): Promise<ShopifyPriceList[]>;
+  // Fixed price per price list ID; lists where the variant has no fixed price are missing
+  getFixedPrices(variant: ShopifyVariant, priceListIds: string[]): Promise<Map<string, string>>;
+  setFixedPrices(variantId: string, updates: FixedPriceUpdate[]): Promise<FixedPriceResult[]>;
+}
+
+interface RestResponse {
+  data: any;
+  headers: Headers;
+}
+
+const API_VERSION = '2023-10';
+
+// Standard REST leaky bucket (40 requests, leaking 2/s) until Shopify reports the shop's real limit.
+// Buckets leak at roughly size / 20 per second, so Plus stores (400) get 20/s.
+const DEFAULT_BUCKET_SIZE = 40;
+const BUCKET_LEAK_DIVISOR = 20;
+
+const PRICE_LISTS_UNSUPPORTED = 'Market price lists need the GraphQL Admin API; switch the store to GraphQL or Bulk mode';
+
+function toVariant(variant: any, product?: any): ShopifyVariant {
+  return {
+    id: variant.id.toString(),
+    sku: variant.sku,
+    price: variant.price,
+    compare_at_price: variant.compare_at_price,
+    product_id: (product?.id ?? variant.product_id).toString(),
+    inventory_item_id: variant.inventory_item_id?.toString(),
+    product_status: product?.status,
+    barcode: variant.barcode || undefined,
+    handle: product?.handle,
+    options: [variant.option1, variant.option2, variant.option3].filter(value => value != null),
+  };
+}
+
+// Link: <https://shop/admin/api/2023-10/products.json?limit=250&page_info=abc>; rel="next"
+function getNextPageInfo(linkHeader: string | null): string | null {
+  if (!linkHeader) return null;
+
+  for (const part of linkHeader.split(',')) {
+    const match = part.match(/<([^>]+)>;\s*rel="next"/);
+    if (match) {
+      return new URL(match[1]).searchParams.get('page_info');
+    }
+  }
+
+  return null;
+}
+
+export class ShopifyService implements ShopifyClient {
   private shopUrl: string;
   private accessToken: string;
-  private requestQueue: QueueItem[] = [];
-  private isProcessingQueue = false;
-  private queueDelay = 800; // 800ms between requests (safer rate limiting)
+  private rateLimiter: TokenBucket;
 
   constructor(shopUrl: string, accessToken: string) {
     this.shopUrl = shopUrl.replace(/^https?:\/\//, '').replace(/\/$/, '');
     this.accessToken = accessToken;
+
+    // Every client for this shop draws from the same bucket
+    this.rateLimiter = getRateLimiter(`shopify-rest:${this.shopUrl}`, {
+      capacity: DEFAULT_BUCKET_SIZE,
+      refillPerSecond: DEFAULT_BUCKET_SIZE / BUCKET_LEAK_DIVISOR,
+    });
   }
 
-  private async processQueue(): Promise<void> {
-    if (this.isProcessingQueue || this.requestQueue.length === 0) {
-      return;
-    }
+  // Requests run concurrently; the shop's rate limiter decides when each one goes out
+  private async executeRequest(endpoint: string, method: string = 'GET', body?: any): Promise<RestResponse> {
+    const retryCounter = getRetryCounter();
+    const url = `https://${this.shopUrl}/admin/api/${API_VERSION}/${endpoint}`;
 
-    this.isProcessingQueue = true;
+    for (let attempt = 0; ; attempt++) {
+      await this.rateLimiter.acquire();
 
-    while (this.requestQueue.length > 0) {
-      const item = this.requestQueue.shift()!;
-      
-      try {
-        // Add delay between requests (queue system)
-        await new Promise(resolve => setTimeout(resolve, this.queueDelay));
-        
-        const result = await this.executeRequest(item.endpoint, item.method, item.body);
-        item.resolve(result);
-      } catch (error) {
-        item.reject(error);
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'X-Shopify-Access-Token': this.accessToken,
+          'Content-Type': 'application/json',
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+
+      // X-Shopify-Shop-Api-Call-Limit reports the bucket as Shopify sees it, including other apps' calls
+      const callLimit = parseCallLimit(response.headers.get('x-shopify-shop-api-call-limit'));
+      if (callLimit) {
+        this.rateLimiter.sync(callLimit.max - callLimit.used, callLimit.max, callLimit.max / BUCKET_LEAK_DIVISOR);
+      } else if (response.status === 429) {
+        this.rateLimiter.drain();
       }
-    }
 
-    this.isProcessingQueue = false;
-  }
+      if (!response.ok) {
+        const errorText = await response.text();
 
-  private async executeRequest(endpoint: string, method: string = 'GET', body?: any) {
-    const url = `https://${this.shopUrl}/admin/api/2023-10/${endpoint}`;
-    
-    const response = await fetch(url, {
-      method,
-      headers: {
-        'X-Shopify-Access-Token': this.accessToken,
-        'Content-Type': 'application/json',
-      },
-      body: body ? JSON.stringify(body) : undefined,
-    });
+        if (isRetryableStatus(response.status) && attempt < MAX_RETRIES) {
+          const delay = getRetryDelay(attempt, response.headers.get('retry-after'));
+          console.warn(`Shopify API ${response.status} on ${method} ${endpoint}, retry ${attempt + 1}/${MAX_RETRIES} in ${Math.round(delay)}ms`);
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Shopify API error: ${response.status} ${errorText}`);
-    }
+          if (retryCounter) retryCounter.retries++;
+          await new Promise(resolve => setTimeout(resolve, delay));
+          continue;
+        }
+
+        throw new Error(`Shopify API error: ${response.status} ${errorText}`);
+      }
 
-    return await response.json();
+      return {
+        data: await response.json(),
+        headers: response.headers,
+      };
+    }
   }
 
   private async makeRequest(endpoint: string, method: string = 'GET', body?: any): Promise<any> {
-    return new Promise((resolve, reject) => {
-      this.requestQueue.push({
-        endpoint,
-        method,
-        body,
-        resolve,
-        reject
-      });
+    const { data } = await this.executeRequest(endpoint, method, body);
+    return data;
+  }
 
-      // Start processing queue
-      this.processQueue();
-    });
+  // Same as makeRequest, but resolves with the headers too (needed for Link pagination)
+  private async makeRequestWithHeaders(endpoint: string): Promise<RestResponse> {
+    return this.executeRequest(endpoint);
   }
 
   async testConnection(): Promise<boolean> {
@@ -100,64 +232,101 @@ export class ShopifyService {
     }
   }
 
-  private allProducts: any[] = [];
-  private productsLoaded = false;
+  private catalog = new VariantCatalog();
+  private catalogLoading: Promise<void> | null = null;
 
-  private async loadAllProducts(): Promise<void> {
-    if (this.productsLoaded) return;
-    
+  // Loads the catalog once per service instance; concurrent callers share the same load
+  private loadCatalog(): Promise<void> {
+    if (!this.catalogLoading) {
+      this.catalogLoading = this.buildCatalog().catch(error => {
+        this.catalogLoading = null;
+        throw error;
+      });
+    }
+    return this.catalogLoading;
+  }
+
+  private async buildCatalog(): Promise<void> {
     try {
-      this.allProducts = [];
-      let page = 1;
-      let hasMore = true;
-      
-      while (hasMore) {
-        const response = await this.makeRequest(`products.json?limit=250&page=${page}`);
-        
-        if (response.products && response.products.length > 0) {
-          this.allProducts.push(...response.products);
-          page++;
-          // If we got less than 250, we're done
-          hasMore = response.products.length === 250;
-        } else {
-          hasMore = false;
+      this.catalog.clear();
+      let productCount = 0;
+      let pageInfo: string | null = null;
+
+      do {
+        // page_info requests may only repeat limit and fields
+        const endpoint: string = pageInfo
+          ? `products.json?limit=250&fields=id,status,handle,variants&page_info=${encodeURIComponent(pageInfo)}`
+          : `products.json?limit=250&fields=id,status,handle,variants`;
+        const { data, headers } = await this.makeRequestWithHeaders(endpoint);
+
+        for (const product of data.products || []) {
+          productCount++;
+
+          // Every variant is kept so SKUs shared by several variants can be detected
+          for (const variant of product.variants || []) {
+            this.catalog.add(toVariant(variant, product));
+          }
         }
-      }
-      
-      this.productsLoaded = true;
-      console.log(`Loaded ${this.allProducts.length} products from Shopify`);
+
+        pageInfo = getNextPageInfo(headers.get('link'));
+      } while (pageInfo);
+
+      console.log(`Indexed ${this.catalog.size} variants from ${productCount} Shopify products (${this.catalog.duplicateSkus().length} duplicated SKUs)`);
     } catch (error) {
       console.error('Error loading products:', error);
       throw error;
     }
   }
 
-  async findVariantBySku(sku: string): Promise<ShopifyVariant | null> {
+  async findVariants(lookup: VariantLookup): Promise<ShopifyVariant[]> {
     try {
-      // Load all products first time only
-      await this.loadAllProducts();
-      
-      for (const product of this.allProducts) {
-        const variant = product.variants.find((v: any) => v.sku === sku);
-        if (variant) {
-          return {
-            id: variant.id.toString(),
-            sku: variant.sku,
-            price: variant.price,
-            compare_at_price: variant.compare_at_price,
-            product_id: product.id.toString(),
-          };
-        }
+      if (lookup.matchKey === 'variant_id') {
+        return await this.findVariantById(lookup.value);
       }
-      
-      return null;
+
+      // Load the catalog first time only
+      await this.loadCatalog();
+
+      return this.catalog.find(lookup);
+    } catch (error) {
+      console.error(`Error finding variants by ${lookup.matchKey} ${lookup.value}:`, error);
+      throw error;
+    }
+  }
+
+  resolvesFromCatalog(lookup: VariantLookup): boolean {
+    return lookup.matchKey !== 'variant_id';
+  }
+
+  async findCachedVariant(variantId: string, lookup: VariantLookup): Promise<ShopifyVariant | null> {
+    if (!this.resolvesFromCatalog(lookup)) {
+      const [variant] = await this.findVariantById(variantId);
+      return variant || null;
+    }
+
+    await this.loadCatalog();
+    return this.catalog.get(variantId) || null;
+  }
+
+  // A variant ID that doesn't exist is a row without a match, not a failed request
+  private async findVariantById(variantId: string): Promise<ShopifyVariant[]> {
+    try {
+      return [await this.getVariant(variantId)];
     } catch (error) {
-      console.error(`Error finding variant with SKU ${sku}:`, error);
+      if (error instanceof Error && error.message.startsWith('Shopify API error: 404')) {
+        return [];
+      }
       throw error;
     }
   }
 
-  async updateVariantPrice(variantId: string, price: number, compareAtPrice?: number): Promise<ShopifyVariant> {
+  async getDuplicateSkus(): Promise<DuplicateSku[]> {
+    await this.loadCatalog();
+
+    return this.catalog.duplicateSkus();
+  }
+
+  async updateVariantPrice(variantId: string, price: number, compareAtPrice?: number | null): Promise<ShopifyVariant> {
     try {
       const updateData: any = {
         variant: {
@@ -166,39 +335,131 @@ export class ShopifyService {
         }
       };
 
-      if (compareAtPrice !== undefined) {
+      if (compareAtPrice === null) {
+        updateData.variant.compare_at_price = null;
+      } else if (compareAtPrice !== undefined) {
         updateData.variant.compare_at_price = compareAtPrice.toFixed(2);
       }
 
       const response = await this.makeRequest(`variants/${variantId}.json`, 'PUT', updateData);
-      
-      return {
-        id: response.variant.id.toString(),
-        sku: response.variant.sku,
-        price: response.variant.price,
-        compare_at_price: response.variant.compare_at_price,
-        product_id: response.variant.product_id.toString(),
-      };
+      const updated = toVariant(response.variant);
+
+      // Keep the catalog current so a SKU repeated later in the sheet diffs against the new price
+      this.catalog.recordUpdate(updated);
+
+      return updated;
     } catch (error) {
       console.error(`Error updating variant ${variantId}:`, error);
       throw error;
     }
   }
 
+  async updateVariantPrices(updates: VariantPriceUpdate[]): Promise<VariantPriceUpdateResult[]> {
+    const results: VariantPriceUpdateResult[] = [];
+
+    // REST has no bulk variant endpoint, so updates are sent one at a time
+    for (const update of updates) {
+      try {
+        const variant = await this.updateVariantPrice(update.variantId, update.price, update.compareAtPrice);
+        results.push({ variantId: update.variantId, variant });
+      } catch (error) {
+        results.push({ variantId: update.variantId, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    return results;
+  }
+
   async getVariant(variantId: string): Promise<ShopifyVariant> {
     try {
       const response = await this.makeRequest(`variants/${variantId}.json`);
-      
-      return {
-        id: response.variant.id.toString(),
-        sku: response.variant.sku,
-        price: response.variant.price,
-        compare_at_price: response.variant.compare_at_price,
-        product_id: response.variant.product_id.toString(),
-      };
+
+      return toVariant(response.variant);
     } catch (error) {
       console.error(`Error getting variant ${variantId}:`, error);
       throw error;
     }
   }
+
+  async getLocations(): Promise<ShopifyLocation[]> {
+    const response = await this.makeRequest('locations.json');
+
+    return (response.locations || []).map((location: any) => ({
+      id: location.id.toString(),
+      name: location.name,
+      active: location.active !== false,
+    }));
+  }
+
+  async getInventoryLevels(inventoryItemId: string): Promise<Map<string, number>> {
+    const response = await this.makeRequest(`inventory_levels.json?inventory_item_ids=${inventoryItemId}&limit=250`);
+
+    return new Map((response.inventory_levels || []).map((level: any) => [level.location_id.toString(), level.available ?? 0]));
+  }
+
+  // The REST InventoryLevel endpoint sets one location per request and can't compare quantities
+  async setInventoryQuantities(inventoryItemId: string, updates: InventoryQuantityUpdate[]): Promise<InventoryQuantityResult[]> {
+    const results: InventoryQuantityResult[] = [];
+
+    for (const update of updates) {
+      try {
+        await this.makeRequest('inventory_levels/set.json', 'POST', {
+          location_id: update.locationId,
+          inventory_item_id: inventoryItemId,
+          available: update.quantity,
+        });
+        results.push({ locationId: update.locationId });
+      } catch (error) {
+        console.error(`Error setting inventory of item ${inventoryItemId} at location ${update.locationId}:`, error);
+        results.push({ locationId: update.locationId, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    return results;
+  }
+
+  async getInventoryItemCost(inventoryItemId: string): Promise<string | null> {
+    const response = await this.makeRequest(`inventory_items/${inventoryItemId}.json`);
+
+    return response.inventory_item.cost ?? null;
+  }
+
+  async updateInventoryItemCost(inventoryItemId: string, cost: number): Promise<string | null> {
+    try {
+      const response = await this.makeRequest(`inventory_items/${inventoryItemId}.json`, 'PUT', {
+        inventory_item: {
+          id: inventoryItemId,
+          cost: cost.toFixed(2),
+        },
+      });
+
+      return response.inventory_item.cost ?? null;
+    } catch (error) {
+      console.error(`Error updating cost of inventory item ${inventoryItemId}:`, error);
+      throw error;
+    }
+  }
+
+  // Price lists only exist in the GraphQL Admin API
+  async getPriceLists(): Promise<ShopifyPriceList[]> {
+    throw new Error(PRICE_LISTS_UNSUPPORTED);
+  }
+
+  async getFixedPrices(): Promise<Map<string, string>> {
+    throw new Error(PRICE_LISTS_UNSUPPORTED);
+  }
+
+  async setFixedPrices(): Promise<FixedPriceResult[]> {
+    throw new Error(PRICE_LISTS_UNSUPPORTED);
+  }
+}
+
+export function createShopifyClient(store: Pick<Store, 'shopifyUrl' | 'accessToken' | 'apiMode'>): ShopifyClient {
+  if (store.apiMode === 'graphql' || store.apiMode === 'bulk') {
+    return new ShopifyGraphQLService(store.shopifyUrl, store.accessToken, {
+      bulkOperations: store.apiMode === 'bulk',
+    });
+  }
+
+  return new ShopifyService(store.shopifyUrl, store.accessToken);
 }
@@ -0,0 +1,856 @@
+import { Readable } from 'stream';
+import { createInterface } from 'readline';
+import type {
+  DuplicateSku,
+  FixedPriceResult,
+  FixedPriceUpdate,
+  InventoryQuantityResult,
+  InventoryQuantityUpdate,
+  ShopifyClient,
+  ShopifyLocation,
+  ShopifyPriceList,
+  ShopifyVariant,
+  VariantPriceUpdate,
+  VariantPriceUpdateResult,
+} from './shopify';
+import { MAX_RETRIES, getRetryCounter, getRetryDelay, isRetryableStatus } from './shopifyRetry';
+import { getRateLimiter, type TokenBucket } from './rateLimiter';
+import { VariantCatalog, matchesLookup, type VariantLookup } from './variantMatching';
+
+const API_VERSION = '2024-10';
+
+// Smaller batches aren't worth the staged upload and polling overhead of a bulk mutation
+const BULK_MUTATION_MIN_UPDATES = 25;
+const BULK_POLL_INTERVAL_MS = 3000;
+
+export interface ShopifyGraphQLOptions {
+  // Export the catalog with bulkOperationRunQuery and apply large batches with bulkOperationRunMutation
+  bulkOperations?: boolean;
+}
+
+interface ThrottleStatus {
+  maximumAvailable: number;
+  currentlyAvailable: number;
+  restoreRate: number;
+}
+
+// Standard cost budget (1000 points restoring at 50/s) until Shopify reports the shop's throttle status
+const DEFAULT_THROTTLE_STATUS: ThrottleStatus = {
+  maximumAvailable: 1000,
+  currentlyAvailable: 1000,
+  restoreRate: 50,
+};
+
+const VARIANT_FIELDS = `
+  id
+  legacyResourceId
+  sku
+  barcode
+  price
+  compareAtPrice
+  selectedOptions { value }
+  product {
+    id
+    legacyResourceId
+    status
+    handle
+  }
+  inventoryItem {
+    legacyResourceId
+    unitCost { amount }
+  }
+`;
+
+const BULK_EXPORT_QUERY = `{
+  productVariants {
+    edges {
+      node { ${VARIANT_FIELDS} }
+    }
+  }
+}`;
+
+const PRICE_UPDATE_MUTATION = `mutation UpdatePrices($productId: ID!, $variants: [ProductVariantsBulkInput!]!) {
+  productVariantsBulkUpdate(productId: $productId, variants: $variants) {
+    productVariants { ${VARIANT_FIELDS} }
+    userErrors { field message }
+  }
+}`;
+
+function toGid(type: string, id: string): string {
+  return id.startsWith('gid://') ? id : `gid://shopify/${type}/${id}`;
+}
+
+// For resources without a legacyResourceId, e.g. price lists
+function fromGid(id: string): string {
+  return id.split('/').pop() || id;
+}
+
+function toVariant(node: any): ShopifyVariant {
+  return {
+    id: node.legacyResourceId.toString(),
+    sku: node.sku,
+    price: node.price,
+    compare_at_price: node.compareAtPrice ?? undefined,
+    product_id: node.product.legacyResourceId.toString(),
+    inventory_item_id: node.inventoryItem?.legacyResourceId?.toString(),
+    product_status: node.product.status?.toLowerCase(),
+    barcode: node.barcode || undefined,
+    handle: node.product.handle,
+    options: (node.selectedOptions || []).map((option: any) => option.value),
+    cost: node.inventoryItem ? node.inventoryItem.unitCost?.amount ?? null : undefined,
+  };
+}
+
+function toPriceInput(update: VariantPriceUpdate): any {
+  const input: any = {
+    id: toGid('ProductVariant', update.variantId),
+    price: update.price.toFixed(2),
+  };
+
+  // Passing null for compareAtPrice clears it; undefined leaves it unchanged
+  if (update.compareAtPrice === null) {
+    input.compareAtPrice = null;
+  } else if (update.compareAtPrice !== undefined) {
+    input.compareAtPrice = update.compareAtPrice.toFixed(2);
+  }
+
+  return input;
+}
+
+// Maps productVariantsBulkUpdate output back onto the updates of one product
+function toUpdateResults(group: VariantPriceUpdate[], payload: any): VariantPriceUpdateResult[] {
+  const { productVariants, userErrors } = payload;
+
+  // userErrors fields look like ['variants', '<index>', 'price']
+  const errorsByIndex = new Map<number, string>();
+  for (const userError of userErrors || []) {
+    const index = parseInt(userError.field?.[1], 10);
+    const message = userError.message;
+    if (isNaN(index)) {
+      group.forEach((_, i) => errorsByIndex.set(i, message));
+    } else {
+      errorsByIndex.set(index, message);
+    }
+  }
+
+  const updatedById = new Map<string, ShopifyVariant>(
+    (productVariants || []).map((node: any) => [node.legacyResourceId.toString(), toVariant(node)])
+  );
+
+  return group.map((update, index) => {
+    const error = errorsByIndex.get(index);
+    const variant = updatedById.get(update.variantId);
+    return error || !variant
+      ? { variantId: update.variantId, error: error || `Variant ${update.variantId} was not updated` }
+      : { variantId: update.variantId, variant };
+  });
+}
+
+// Shopify search syntax treats quotes and backslashes specially
+function escapeSearchValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+export class ShopifyGraphQLService implements ShopifyClient {
+  private shopUrl: string;
+  private accessToken: string;
+  private rateLimiter: TokenBucket;
+  private lastQueryCost = 10; // estimate for the next request until Shopify reports a real cost
+  private productIdsByVariant = new Map<string, string>();
+  private maxThrottleRetries = 5;
+  private bulkOperations: boolean;
+  private catalog = new VariantCatalog();
+  private catalogLoading: Promise<void> | null = null;
+  private priceListsLoading: Promise<ShopifyPriceList[]> | null = null;
+
+  constructor(shopUrl: string, accessToken: string, options: ShopifyGraphQLOptions = {}) {
+    this.shopUrl = shopUrl.replace(/^https?:\/\//, '').replace(/\/$/, '');
+    this.accessToken = accessToken;
+    this.bulkOperations = options.bulkOperations === true;
+
+    // GraphQL has its own cost budget per shop, separate from REST
+    this.rateLimiter = getRateLimiter(`shopify-graphql:${this.shopUrl}`, {
+      capacity: DEFAULT_THROTTLE_STATUS.maximumAvailable,
+      refillPerSecond: DEFAULT_THROTTLE_STATUS.restoreRate,
+    });
+  }
+
+  // Queries run concurrently; the shop's cost budget decides when each one goes out
+  private async executeQuery(query: string, variables?: Record<string, any>): Promise<any> {
+    const retryCounter = getRetryCounter();
+
+    for (let attempt = 0; ; attempt++) {
+      await this.rateLimiter.acquire(this.lastQueryCost);
+
+      const response = await fetch(`https://${this.shopUrl}/admin/api/${API_VERSION}/graphql.json`, {
+        method: 'POST',
+        headers: {
+          'X-Shopify-Access-Token': this.accessToken,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ query, variables }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+
+        if (response.status === 429) {
+          this.rateLimiter.drain();
+        }
+
+        if (isRetryableStatus(response.status) && attempt < MAX_RETRIES) {
+          const delay = getRetryDelay(attempt, response.headers.get('retry-after'));
+          console.warn(`Shopify GraphQL ${response.status}, retry ${attempt + 1}/${MAX_RETRIES} in ${Math.round(delay)}ms`);
+
+          if (retryCounter) retryCounter.retries++;
+          await new Promise(resolve => setTimeout(resolve, delay));
+          continue;
+        }
+
+        throw new Error(`Shopify GraphQL error: ${response.status} ${errorText}`);
+      }
+
+      const result = await response.json();
+
+      const cost = result.extensions?.cost;
+      if (cost?.throttleStatus) {
+        const status: ThrottleStatus = cost.throttleStatus;
+        this.rateLimiter.sync(status.currentlyAvailable, status.maximumAvailable, status.restoreRate);
+        this.lastQueryCost = cost.requestedQueryCost ?? this.lastQueryCost;
+      }
+
+      const throttled = result.errors?.some((error: any) => error.extensions?.code === 'THROTTLED');
+      if (throttled && attempt < this.maxThrottleRetries) {
+        // The bucket is empty; the rate limiter holds the retry until it refills
+        if (retryCounter) retryCounter.retries++;
+        continue;
+      }
+
+      if (result.errors?.length) {
+        throw new Error(`Shopify GraphQL error: ${result.errors.map((error: any) => error.message).join('; ')}`);
+      }
+
+      return result.data;
+    }
+  }
+
+  private async makeRequest(query: string, variables?: Record<string, any>): Promise<any> {
+    return this.executeQuery(query, variables);
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.makeRequest('{ shop { name } }');
+      return true;
+    } catch (error) {
+      console.error('Shopify connection test failed:', error);
+      return false;
+    }
+  }
+
+  async findVariants(lookup: VariantLookup): Promise<ShopifyVariant[]> {
+    try {
+      if (lookup.matchKey === 'variant_id') {
+        return await this.findVariantById(lookup.value);
+      }
+
+      if (this.resolvesFromCatalog(lookup)) {
+        await this.loadCatalog();
+        return this.catalog.find(lookup);
+      }
+
+      const data = await this.makeRequest(
+        `query FindVariantsBySku($query: String!) {
+          productVariants(first: 50, query: $query) {
+            nodes { ${VARIANT_FIELDS} }
+          }
+        }`,
+        { query: `sku:"${escapeSearchValue(lookup.value)}"` }
+      );
+
+      // The search is tokenised, so confirm the matches are exact
+      const variants: ShopifyVariant[] = data.productVariants.nodes
+        .map(toVariant)
+        .filter((variant: ShopifyVariant) => matchesLookup(variant, lookup));
+
+      variants.forEach(variant => this.productIdsByVariant.set(variant.id, variant.product_id));
+      return variants;
+    } catch (error) {
+      console.error(`Error finding variants by ${lookup.matchKey} ${lookup.value}:`, error);
+      throw error;
+    }
+  }
+
+  // Search only handles SKUs as typed; other keys need the whole catalog to compare against
+  resolvesFromCatalog(lookup: VariantLookup): boolean {
+    if (lookup.matchKey === 'variant_id') {
+      return false;
+    }
+    return this.bulkOperations || (lookup.matchKey !== 'sku' && lookup.matchKey !== 'sku_case_insensitive');
+  }
+
+  // One productVariant query in search mode, which is cheaper than the SKU search it replaces
+  async findCachedVariant(variantId: string, lookup: VariantLookup): Promise<ShopifyVariant | null> {
+    if (!this.resolvesFromCatalog(lookup)) {
+      const [variant] = await this.findVariantById(variantId);
+      return variant || null;
+    }
+
+    await this.loadCatalog();
+    return this.catalog.get(variantId) || null;
+  }
+
+  // A variant ID that doesn't exist is a row without a match, not a failed request
+  private async findVariantById(variantId: string): Promise<ShopifyVariant[]> {
+    const data = await this.makeRequest(
+      `query GetVariant($id: ID!) {
+        productVariant(id: $id) { ${VARIANT_FIELDS} }
+      }`,
+      { id: toGid('ProductVariant', variantId) }
+    );
+
+    if (!data.productVariant) {
+      return [];
+    }
+
+    const variant = toVariant(data.productVariant);
+    this.productIdsByVariant.set(variant.id, variant.product_id);
+    return [variant];
+  }
+
+  async getDuplicateSkus(): Promise<DuplicateSku[]> {
+    await this.loadCatalog();
+
+    return this.catalog.duplicateSkus();
+  }
+
+  async getVariant(variantId: string): Promise<ShopifyVariant> {
+    try {
+      const data = await this.makeRequest(
+        `query GetVariant($id: ID!) {
+          productVariant(id: $id) { ${VARIANT_FIELDS} }
+        }`,
+        { id: toGid('ProductVariant', variantId) }
+      );
+
+      if (!data.productVariant) {
+        throw new Error(`Variant ${variantId} not found`);
+      }
+
+      const variant = toVariant(data.productVariant);
+      this.productIdsByVariant.set(variant.id, variant.product_id);
+      return variant;
+    } catch (error) {
+      console.error(`Error getting variant ${variantId}:`, error);
+      throw error;
+    }
+  }
+
+  async getLocations(): Promise<ShopifyLocation[]> {
+    const data = await this.makeRequest(`{
+      locations(first: 250, includeInactive: true) {
+        nodes { legacyResourceId name isActive }
+      }
+    }`);
+
+    return data.locations.nodes.map((location: any) => ({
+      id: location.legacyResourceId.toString(),
+      name: location.name,
+      active: location.isActive,
+    }));
+  }
+
+  async getInventoryLevels(inventoryItemId: string): Promise<Map<string, number>> {
+    const data = await this.makeRequest(
+      `query InventoryLevels($id: ID!) {
+        inventoryItem(id: $id) {
+          inventoryLevels(first: 250) {
+            nodes {
+              location { legacyResourceId }
+              quantities(names: ["available"]) { name quantity }
+            }
+          }
+        }
+      }`,
+      { id: toGid('InventoryItem', inventoryItemId) }
+    );
+
+    const levels = new Map<string, number>();
+    for (const level of data.inventoryItem?.inventoryLevels.nodes || []) {
+      levels.set(level.location.legacyResourceId.toString(), level.quantities[0]?.quantity ?? 0);
+    }
+    return levels;
+  }
+
+  // One inventorySetQuantities call covers every location of the item; compareQuantity makes Shopify reject
+  // a write when the quantity moved (e.g. an order came in) after it was read
+  async setInventoryQuantities(inventoryItemId: string, updates: InventoryQuantityUpdate[]): Promise<InventoryQuantityResult[]> {
+    try {
+      const data = await this.makeRequest(
+        `mutation SetQuantities($input: InventorySetQuantitiesInput!) {
+          inventorySetQuantities(input: $input) {
+            userErrors { field message }
+          }
+        }`,
+        {
+          input: {
+            name: 'available',
+            reason: 'correction',
+            ignoreCompareQuantity: updates.some(update => update.compareQuantity === undefined),
+            quantities: updates.map(update => ({
+              inventoryItemId: toGid('InventoryItem', inventoryItemId),
+              locationId: toGid('Location', update.locationId),
+              quantity: update.quantity,
+              compareQuantity: update.compareQuantity,
+            })),
+          },
+        }
+      );
+
+      // userErrors fields look like ['input', 'quantities', '<index>', 'locationId']; others apply to all
+      const errorsByIndex = new Map<number, string>();
+      for (const userError of data.inventorySetQuantities.userErrors || []) {
+        const index = parseInt(userError.field?.[2], 10);
+        if (isNaN(index)) {
+          updates.forEach((_, i) => errorsByIndex.set(i, userError.message));
+        } else {
+          errorsByIndex.set(index, userError.message);
+        }
+      }
+
+      return updates.map((update, index) => ({ locationId: update.locationId, error: errorsByIndex.get(index) }));
+    } catch (error) {
+      console.error(`Error setting inventory of item ${inventoryItemId}:`, error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return updates.map(update => ({ locationId: update.locationId, error: message }));
+    }
+  }
+
+  async getInventoryItemCost(inventoryItemId: string): Promise<string | null> {
+    const data = await this.makeRequest(
+      `query InventoryItemCost($id: ID!) {
+        inventoryItem(id: $id) { unitCost { amount } }
+      }`,
+      { id: toGid('InventoryItem', inventoryItemId) }
+    );
+
+    if (!data.inventoryItem) {
+      throw new Error(`Inventory item ${inventoryItemId} not found`);
+    }
+    return data.inventoryItem.unitCost?.amount ?? null;
+  }
+
+  async updateInventoryItemCost(inventoryItemId: string, cost: number): Promise<string | null> {
+    try {
+      const data = await this.makeRequest(
+        `mutation UpdateCost($id: ID!, $input: InventoryItemInput!) {
+          inventoryItemUpdate(id: $id, input: $input) {
+            inventoryItem { unitCost { amount } }
+            userErrors { field message }
+          }
+        }`,
+        { id: toGid('InventoryItem', inventoryItemId), input: { cost: cost.toFixed(2) } }
+      );
+
+      const { inventoryItem, userErrors } = data.inventoryItemUpdate;
+      if (userErrors?.length) {
+        throw new Error(userErrors.map((error: any) => error.message).join('; '));
+      }
+
+      return inventoryItem?.unitCost?.amount ?? null;
+    } catch (error) {
+      console.error(`Error updating cost of inventory item ${inventoryItemId}:`, error);
+      throw error;
+    }
+  }
+
+  // Loaded once per client, since every row of a sync looks up the same few lists
+  getPriceLists(): Promise<ShopifyPriceList[]> {
+    if (!this.priceListsLoading) {
+      this.priceListsLoading = this.loadPriceLists().catch(error => {
+        this.priceListsLoading = null;
+        throw error;
+      });
+    }
+    return this.priceListsLoading;
+  }
+
+  private async loadPriceLists(): Promise<ShopifyPriceList[]> {
+    const data = await this.makeRequest(`{
+      priceLists(first: 250) {
+        nodes { id name currency catalog { title } }
+      }
+    }`);
+
+    return data.priceLists.nodes.map((priceList: any) => ({
+      id: fromGid(priceList.id),
+      name: priceList.name,
+      currency: priceList.currency,
+      catalog: priceList.catalog?.title,
+    }));
+  }
+
+  // Fixed prices are filtered by product, so each list is read once and searched for the variant
+  async getFixedPrices(variant: ShopifyVariant, priceListIds: string[]): Promise<Map<string, string>> {
+    const prices = new Map<string, string>();
+
+    for (const priceListId of priceListIds) {
+      const data = await this.makeRequest(
+        `query FixedPrices($id: ID!, $query: String!) {
+          priceList(id: $id) {
+            prices(first: 250, originType: FIXED, query: $query) {
+              nodes {
+                price { amount }
+                variant { legacyResourceId }
+              }
+            }
+          }
+        }`,
+        { id: toGid('PriceList', priceListId), query: `product_id:${variant.product_id}` }
+      );
+
+      const fixed = (data.priceList?.prices.nodes || [])
+        .find((node: any) => node.variant.legacyResourceId.toString() === variant.id);
+      if (fixed) {
+        prices.set(priceListId, fixed.price.amount);
+      }
+    }
+
+    return prices;
+  }
+
+  // priceListFixedPricesAdd is scoped to one price list, so each market is its own mutation
+  async setFixedPrices(variantId: string, updates: FixedPriceUpdate[]): Promise<FixedPriceResult[]> {
+    const results: FixedPriceResult[] = [];
+
+    for (const update of updates) {
+      try {
+        const data = await this.makeRequest(
+          `mutation AddFixedPrices($priceListId: ID!, $prices: [PriceListPriceInput!]!) {
+            priceListFixedPricesAdd(priceListId: $priceListId, prices: $prices) {
+              userErrors { field message }
+            }
+          }`,
+          {
+            priceListId: toGid('PriceList', update.priceListId),
+            prices: [{
+              variantId: toGid('ProductVariant', variantId),
+              price: { amount: update.price.toFixed(2), currencyCode: update.currency },
+            }],
+          }
+        );
+
+        const userErrors = data.priceListFixedPricesAdd.userErrors || [];
+        results.push({
+          priceListId: update.priceListId,
+          error: userErrors.length > 0 ? userErrors.map((error: any) => error.message).join('; ') : undefined,
+        });
+      } catch (error) {
+        console.error(`Error setting price of variant ${variantId} in price list ${update.priceListId}:`, error);
+        results.push({ priceListId: update.priceListId, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    return results;
+  }
+
+  // productVariantsBulkUpdate is scoped to one product, so unknown product IDs are looked up in bulk first
+  private async resolveProductIds(variantIds: string[]): Promise<void> {
+    const missing = variantIds.filter(id => !this.productIdsByVariant.has(id));
+
+    for (let i = 0; i < missing.length; i += 250) {
+      const data = await this.makeRequest(
+        `query ResolveProducts($ids: [ID!]!) {
+          nodes(ids: $ids) {
+            ... on ProductVariant {
+              legacyResourceId
+              product { legacyResourceId }
+            }
+          }
+        }`,
+        { ids: missing.slice(i, i + 250).map(id => toGid('ProductVariant', id)) }
+      );
+
+      for (const node of data.nodes) {
+        if (node?.legacyResourceId) {
+          this.productIdsByVariant.set(node.legacyResourceId.toString(), node.product.legacyResourceId.toString());
+        }
+      }
+    }
+  }
+
+  async updateVariantPrice(variantId: string, price: number, compareAtPrice?: number | null): Promise<ShopifyVariant> {
+    const [result] = await this.updateVariantPrices([{ variantId, price, compareAtPrice }]);
+
+    if (result.error || !result.variant) {
+      throw new Error(result.error || `Variant ${variantId} was not updated`);
+    }
+
+    return result.variant;
+  }
+
+  async updateVariantPrices(updates: VariantPriceUpdate[]): Promise<VariantPriceUpdateResult[]> {
+    await this.resolveProductIds(updates.filter(update => !update.productId).map(update => update.variantId));
+
+    const byProduct = new Map<string, VariantPriceUpdate[]>();
+    const results: VariantPriceUpdateResult[] = [];
+
+    for (const update of updates) {
+      const productId = update.productId || this.productIdsByVariant.get(update.variantId);
+      if (!productId) {
+        results.push({ variantId: update.variantId, error: `Variant ${update.variantId} not found` });
+        continue;
+      }
+
+      const group = byProduct.get(productId) || [];
+      group.push(update);
+      byProduct.set(productId, group);
+    }
+
+    if (this.bulkOperations && updates.length >= BULK_MUTATION_MIN_UPDATES) {
+      results.push(...await this.runBulkPriceMutation(byProduct));
+      return results;
+    }
+
+    for (const [productId, group] of Array.from(byProduct.entries())) {
+      try {
+        const data = await this.makeRequest(PRICE_UPDATE_MUTATION, {
+          productId: toGid('Product', productId),
+          variants: group.map(toPriceInput),
+        });
+
+        results.push(...this.recordUpdates(toUpdateResults(group, data.productVariantsBulkUpdate)));
+      } catch (error) {
+        console.error(`Error updating variants of product ${productId}:`, error);
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        group.forEach(update => results.push({ variantId: update.variantId, error: message }));
+      }
+    }
+
+    return results;
+  }
+
+  // Keep the loaded catalog current so a SKU repeated later in the sheet diffs against the new price
+  private recordUpdates(results: VariantPriceUpdateResult[]): VariantPriceUpdateResult[] {
+    for (const result of results) {
+      if (result.variant) {
+        this.catalog.recordUpdate(result.variant);
+      }
+    }
+    return results;
+  }
+
+  private loadCatalog(): Promise<void> {
+    if (!this.catalogLoading) {
+      this.catalogLoading = (this.bulkOperations ? this.exportCatalog() : this.pageCatalog()).catch(error => {
+        this.catalogLoading = null;
+        throw error;
+      });
+    }
+    return this.catalogLoading;
+  }
+
+  // Without bulk operations the catalog is paged through 250 variants at a time
+  private async pageCatalog(): Promise<void> {
+    try {
+      this.catalog.clear();
+      let cursor: string | null = null;
+
+      do {
+        const data: any = await this.makeRequest(
+          `query ListVariants($after: String) {
+            productVariants(first: 250, after: $after) {
+              nodes { ${VARIANT_FIELDS} }
+              pageInfo { hasNextPage endCursor }
+            }
+          }`,
+          { after: cursor }
+        );
+
+        for (const node of data.productVariants.nodes) {
+          const variant = toVariant(node);
+          this.productIdsByVariant.set(variant.id, variant.product_id);
+          this.catalog.add(variant);
+        }
+
+        cursor = data.productVariants.pageInfo.hasNextPage ? data.productVariants.pageInfo.endCursor : null;
+      } while (cursor);
+
+      console.log(`Indexed ${this.catalog.size} variants from Shopify (${this.catalog.duplicateSkus().length} duplicated SKUs)`);
+    } catch (error) {
+      console.error('Error listing variants:', error);
+      throw error;
+    }
+  }
+
+  private async exportCatalog(): Promise<void> {
+    try {
+      const data = await this.makeRequest(
+        `mutation ExportVariants($query: String!) {
+          bulkOperationRunQuery(query: $query) {
+            bulkOperation { id status }
+            userErrors { field message }
+          }
+        }`,
+        { query: BULK_EXPORT_QUERY }
+      );
+
+      const { bulkOperation, userErrors } = data.bulkOperationRunQuery;
+      if (userErrors?.length) {
+        throw new Error(`Bulk export failed: ${userErrors.map((error: any) => error.message).join('; ')}`);
+      }
+
+      const url = await this.waitForBulkOperation(bulkOperation.id);
+
+      this.catalog.clear();
+      await this.readJsonl(url, node => {
+        const variant = toVariant(node);
+        this.productIdsByVariant.set(variant.id, variant.product_id);
+        this.catalog.add(variant);
+      });
+
+      console.log(`Indexed ${this.catalog.size} variants from Shopify bulk export (${this.catalog.duplicateSkus().length} duplicated SKUs)`);
+    } catch (error) {
+      console.error('Error exporting variants:', error);
+      throw error;
+    }
+  }
+
+  // Polls a bulk operation until it finishes and returns the URL of its JSONL result (null when empty)
+  private async waitForBulkOperation(operationId: string): Promise<string | null> {
+    while (true) {
+      await new Promise(resolve => setTimeout(resolve, BULK_POLL_INTERVAL_MS));
+
+      const data = await this.makeRequest(
+        `query BulkOperationStatus($id: ID!) {
+          node(id: $id) {
+            ... on BulkOperation { id status errorCode objectCount url }
+          }
+        }`,
+        { id: operationId }
+      );
+
+      const operation = data.node;
+      if (operation.status === 'COMPLETED') {
+        return operation.url;
+      }
+
+      if (['FAILED', 'CANCELED', 'EXPIRED'].includes(operation.status)) {
+        throw new Error(`Bulk operation ${operation.status.toLowerCase()}${operation.errorCode ? `: ${operation.errorCode}` : ''}`);
+      }
+    }
+  }
+
+  // Streams a bulk operation result so large catalogs are never held in memory as one string
+  private async readJsonl(url: string | null, onLine: (value: any) => void): Promise<void> {
+    if (!url) return;
+
+    const response = await fetch(url);
+    if (!response.ok || !response.body) {
+      throw new Error(`Failed to download bulk operation result: ${response.status}`);
+    }
+
+    const lines = createInterface({ input: Readable.fromWeb(response.body as any), crlfDelay: Infinity });
+    for await (const line of lines) {
+      if (line.trim()) {
+        onLine(JSON.parse(line));
+      }
+    }
+  }
+
+  private async runBulkPriceMutation(byProduct: Map<string, VariantPriceUpdate[]>): Promise<VariantPriceUpdateResult[]> {
+    const groups = Array.from(byProduct.entries());
+    const results: VariantPriceUpdateResult[] = [];
+
+    try {
+      const jsonl = groups
+        .map(([productId, group]) => JSON.stringify({
+          productId: toGid('Product', productId),
+          variants: group.map(toPriceInput),
+        }))
+        .join('\n');
+
+      const stagedUploadPath = await this.stageUpload(jsonl);
+
+      const data = await this.makeRequest(
+        `mutation RunBulkPrices($mutation: String!, $stagedUploadPath: String!) {
+          bulkOperationRunMutation(mutation: $mutation, stagedUploadPath: $stagedUploadPath) {
+            bulkOperation { id status }
+            userErrors { field message }
+          }
+        }`,
+        { mutation: PRICE_UPDATE_MUTATION, stagedUploadPath }
+      );
+
+      const { bulkOperation, userErrors } = data.bulkOperationRunMutation;
+      if (userErrors?.length) {
+        throw new Error(`Bulk price update failed: ${userErrors.map((error: any) => error.message).join('; ')}`);
+      }
+
+      const url = await this.waitForBulkOperation(bulkOperation.id);
+
+      // Each result line echoes the input line it belongs to via __lineNumber
+      const seen = new Set<number>();
+      await this.readJsonl(url, line => {
+        const group = groups[line.__lineNumber]?.[1];
+        if (!group) return;
+
+        seen.add(line.__lineNumber);
+        results.push(...this.recordUpdates(toUpdateResults(group, line.data?.productVariantsBulkUpdate || {})));
+      });
+
+      groups.forEach(([, group], index) => {
+        if (!seen.has(index)) {
+          group.forEach(update => results.push({ variantId: update.variantId, error: 'No result returned by bulk operation' }));
+        }
+      });
+    } catch (error) {
+      console.error('Error running bulk price update:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const reported = new Set(results.map(result => result.variantId));
+      groups.forEach(([, group]) => group
+        .filter(update => !reported.has(update.variantId))
+        .forEach(update => results.push({ variantId: update.variantId, error: message })));
+    }
+
+    return results;
+  }
+
+  private async stageUpload(contents: string): Promise<string> {
+    const data = await this.makeRequest(
+      `mutation StageUpload($input: [StagedUploadInput!]!) {
+        stagedUploadsCreate(input: $input) {
+          stagedTargets { url parameters { name value } }
+          userErrors { field message }
+        }
+      }`,
+      {
+        input: [{
+          resource: 'BULK_MUTATION_VARIABLES',
+          filename: 'price-updates.jsonl',
+          mimeType: 'text/jsonl',
+          httpMethod: 'POST',
+        }],
+      }
+    );
+
+    const { stagedTargets, userErrors } = data.stagedUploadsCreate;
+    if (userErrors?.length) {
+      throw new Error(`Staged upload failed: ${userErrors.map((error: any) => error.message).join('; ')}`);
+    }
+
+    const target = stagedTargets[0];
+    const form = new FormData();
+    for (const parameter of target.parameters) {
+      form.append(parameter.name, parameter.value);
+    }
+    form.append('file', new Blob([contents], { type: 'text/jsonl' }), 'price-updates.jsonl');
+
+    const response = await fetch(target.url, { method: 'POST', body: form });
+    if (!response.ok) {
+      throw new Error(`Staged upload failed: ${response.status} ${await response.text()}`);
+    }
+
+    return target.parameters.find((parameter: any) => parameter.name === 'key').value;
+  }
+}
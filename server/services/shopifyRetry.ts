@@ -0,0 +1,67 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Retries for throttled (429) and server-side (5xx) Shopify responses, shared by the REST and GraphQL clients
+
+export const MAX_RETRIES = parseInt(process.env.SHOPIFY_MAX_RETRIES || '5', 10);
+
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30 * 1000;
+
+export interface RetryCounter {
+  retries: number;
+}
+
+export interface CallLimit {
+  used: number;
+  max: number;
+}
+
+const retryScope = new AsyncLocalStorage<RetryCounter>();
+
+// Counts every retry made on behalf of `fn`, so a sync row can log how often its requests were retried
+export function runWithRetryCounter<T>(counter: RetryCounter, fn: () => Promise<T>): Promise<T> {
+  return retryScope.run(counter, fn);
+}
+
+// The counter of whichever sync row the current request is made for, if any
+export function getRetryCounter(): RetryCounter | undefined {
+  return retryScope.getStore();
+}
+
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+// Retry-After is either seconds (Shopify sends e.g. "2.0") or an HTTP date
+export function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const seconds = parseFloat(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// X-Shopify-Shop-Api-Call-Limit: "32/40" - requests currently in the shop's leaky bucket / bucket size
+export function parseCallLimit(header: string | null): CallLimit | null {
+  const match = header?.match(/^\s*(\d+)\s*\/\s*(\d+)\s*$/);
+  if (!match) return null;
+
+  const max = parseInt(match[2], 10);
+  return max > 0 ? { used: parseInt(match[1], 10), max } : null;
+}
+
+// Honors Retry-After when Shopify sends it, otherwise exponential backoff with jitter
+// so concurrent clients don't retry in lockstep
+export function getRetryDelay(attempt: number, retryAfter: string | null = null): number {
+  const requested = parseRetryAfter(retryAfter);
+  if (requested !== null) {
+    return Math.min(requested, RETRY_MAX_DELAY_MS);
+  }
+
+  const backoff = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS);
+  return backoff / 2 + Math.random() * backoff / 2;
+}
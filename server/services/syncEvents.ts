@@ -0,0 +1,116 @@
+import type { PoolClient } from 'pg';
+import { pool } from '../db';
+
+// Workers and web servers may be separate processes, so sync updates travel through Postgres NOTIFY
+const SYNC_EVENTS_CHANNEL = 'sync_events';
+
+// NOTIFY rejects payloads of 8000 bytes or more
+const MAX_PAYLOAD_BYTES = 7900;
+
+const RECONNECT_DELAY_MS = 5 * 1000;
+
+export interface SyncEvent {
+  type: string;
+  [key: string]: any;
+}
+
+export type SyncEventListener = (event: SyncEvent) => void;
+
+const listeners = new Set<SyncEventListener>();
+let listenClient: PoolClient | null = null;
+let connecting = false;
+
+// Events are sent one at a time over the pool, so clients receive them in publish order
+let publishChain: Promise<void> = Promise.resolve();
+
+export function publishSyncEvent(event: SyncEvent): Promise<void> {
+  const payload = JSON.stringify(event);
+  if (Buffer.byteLength(payload) > MAX_PAYLOAD_BYTES) {
+    console.warn(`Dropping ${event.type} event: payload exceeds ${MAX_PAYLOAD_BYTES} bytes`);
+    return publishChain;
+  }
+
+  publishChain = publishChain
+    .then(() => pool.query('SELECT pg_notify($1, $2)', [SYNC_EVENTS_CHANNEL, payload]))
+    .then(() => undefined, error => {
+      console.error(`Failed to publish ${event.type} event:`, error);
+    });
+
+  return publishChain;
+}
+
+// All listeners in the process share one LISTEN connection
+export function subscribeToSyncEvents(listener: SyncEventListener): () => void {
+  listeners.add(listener);
+  connectListener();
+
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function dispatch(payload: string | undefined): void {
+  if (!payload) return;
+
+  let event: SyncEvent;
+  try {
+    event = JSON.parse(payload);
+  } catch (error) {
+    console.error('Ignoring malformed sync event:', payload);
+    return;
+  }
+
+  listeners.forEach(listener => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error(`Sync event listener failed on ${event.type}:`, error);
+    }
+  });
+}
+
+async function connectListener(): Promise<void> {
+  if (listenClient || connecting) return;
+  connecting = true;
+
+  let client: PoolClient | null = null;
+  let released = false;
+  const release = (error: Error | boolean) => {
+    if (client && !released) {
+      released = true;
+      client.release(error);
+    }
+  };
+
+  try {
+    client = await pool.connect();
+    const connection = client;
+
+    connection.on('notification', message => {
+      if (message.channel === SYNC_EVENTS_CHANNEL) {
+        dispatch(message.payload);
+      }
+    });
+
+    // Events published while reconnecting are lost; workers fall back to polling for jobs
+    connection.on('error', error => {
+      console.error('Sync event connection lost, reconnecting:', error);
+      if (listenClient === connection) {
+        listenClient = null;
+      }
+      release(error);
+      setTimeout(connectListener, RECONNECT_DELAY_MS);
+    });
+
+    await connection.query(`LISTEN ${SYNC_EVENTS_CHANNEL}`);
+    listenClient = connection;
+  } catch (error) {
+    console.error('Failed to listen for sync events:', error);
+    if (!released) {
+      release(error instanceof Error ? error : true);
+      setTimeout(connectListener, RECONNECT_DELAY_MS);
+    }
+  } finally {
+    connecting = false;
+  }
+}
@@ -1,7 +1,14 @@
 import { storage } from '../storage';
-import { ShopifyService } from './shopify';
-import { GoogleSheetsService } from './googleSheets';
+import { createShopifyClient, type FixedPriceUpdate, type InventoryQuantityUpdate, type ShopifyClient, type ShopifyPriceList, type ShopifyVariant } from './shopify';
+import { GoogleSheetsService, type SheetRowData } from './googleSheets';
+import { hasPriceChanged, priceChangePercent, pricesEqual } from './prices';
+import { applyPricingRules, usesCost } from './pricingRules';
+import { checkGuardrails } from './guardrails';
+import { runWithRetryCounter, type RetryCounter } from './shopifyRetry';
+import { publishSyncEvent, subscribeToSyncEvents, type SyncEvent } from './syncEvents';
+import { matchesLookup, toVariantLookup, type VariantLookup } from './variantMatching';
 import { WebSocket } from 'ws';
+import { defaultColumnMapping, type InsertPendingChange, type InsertSyncLog, type PendingChange, type SyncJob, type SyncJobPayload, type SyncLog, type SyncSession } from '@shared/schema';
 
 export interface SyncProgress {
   sessionId: string;
@@ -9,13 +16,199 @@ export interface SyncProgress {
   totalSkus: number;
   processedSkus: number;
   updatedSkus: number;
+  unchangedSkus: number;
   notFoundSkus: number;
+  blockedSkus: number;
+  heldSkus: number;
+  duplicateSkus: number;
   errorCount: number;
+  inventoryUpdated: number;
+  inventoryUnchanged: number;
+  inventoryErrors: number;
+  costUpdated: number;
+  costErrors: number;
+  marketPricesUpdated: number;
+  marketPriceErrors: number;
   currentSku?: string;
   status: string;
+  sessionType: string;
+}
+
+export interface SyncOptions {
+  // Resolve every row against Shopify and log the planned changes without writing anything
+  dryRun?: boolean;
+  // Hold changes larger than this (in either direction) for review instead of writing them
+  approvalThresholdPercent?: number;
+}
+
+// Each row adds to exactly one row counter, decided by its price outcome
+type RowCounter = 'updatedSkus' | 'unchangedSkus' | 'notFoundSkus' | 'blockedSkus' | 'heldSkus' | 'duplicateSkus' | 'errorCount';
+
+// Inventory, cost and market entries are counted per log entry (e.g. per location) rather than per row
+type FieldCounter =
+  | 'inventoryUpdated' | 'inventoryUnchanged' | 'inventoryErrors'
+  | 'costUpdated' | 'costErrors'
+  | 'marketPricesUpdated' | 'marketPriceErrors';
+
+type SyncCounts = Record<'processedSkus' | RowCounter | FieldCounter, number>;
+
+const FIELD_COUNTERS: Record<string, Record<string, FieldCounter>> = {
+  inventory: {
+    success: 'inventoryUpdated',
+    planned: 'inventoryUpdated',
+    unchanged: 'inventoryUnchanged',
+    error: 'inventoryErrors',
+  },
+  cost: {
+    success: 'costUpdated',
+    planned: 'costUpdated',
+    error: 'costErrors',
+  },
+  market: {
+    success: 'marketPricesUpdated',
+    planned: 'marketPricesUpdated',
+    error: 'marketPriceErrors',
+  },
+};
+
+// Outcome of one sheet row, recorded once every row above it has been recorded.
+// A row updating several variants under the 'update_all' duplicate policy has one log per variant,
+// and each location quantity, cost and market price synced adds its own log.
+interface RowResult {
+  logs: InsertSyncLog[];
+  counter: RowCounter;
+  rowStatus: string; // written to the sheet's status column
+  rowOldPrice?: string;
+  variantId?: string; // written back to the sheet when it differs from the cached ID
+  pendingChanges?: InsertPendingChange[];
+}
+
+// A row updating several variants is counted once, under the worst outcome among them
+const COUNTER_SEVERITY: RowCounter[] = ['errorCount', 'blockedSkus', 'heldSkus', 'updatedSkus', 'unchangedSkus'];
+
+export interface OrphanRecoveryOptions {
+  // Resume interrupted sync and preview sessions from their checkpoint
+  autoResume?: boolean;
+}
+
+// What the worker should do with a job once executeJob returns
+export type JobOutcome =
+  | { status: 'completed' | 'cancelled' }
+  | { status: 'retry' | 'failed'; error: string };
+
+// A running session or job whose heartbeat is older than this has no live worker
+export const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+export const HEARTBEAT_STALE_MS = 2 * 60 * 1000;
+
+// Rollbacks and approved changes are written in batches so bulk-capable backends can group them
+const PRICE_UPDATE_BATCH_SIZE = 50;
+
+interface ResolvedVariants {
+  variants: ShopifyVariant[];
+  pinned: boolean; // resolved through the sheet's cached variant ID, so the duplicate policy doesn't apply
+}
+
+// Prefer the variant ID cached in the sheet, which skips the lookup while the variant still matches the row;
+// a deleted variant or one that no longer matches falls back to a lookup returning every match.
+// Syncs before duplicate detection cached whichever of several matches came first, so where the lookup
+// costs no request (a loaded catalog) a pin on a shared match value goes through the duplicate policy.
+// In GraphQL search mode such a pin is trusted, since checking it would mean the search it saves.
+async function resolveVariants(shopify: ShopifyClient, row: SheetRowData, lookup: VariantLookup): Promise<ResolvedVariants> {
+  if (row.variantId && lookup.matchKey !== 'variant_id') {
+    try {
+      const variant = await shopify.findCachedVariant(row.variantId, lookup);
+      if (variant && matchesLookup(variant, lookup)) {
+        if (!shopify.resolvesFromCatalog(lookup)) {
+          return { variants: [variant], pinned: true };
+        }
+
+        const matches = await shopify.findVariants(lookup);
+        if (matches.length <= 1) {
+          return { variants: [variant], pinned: true };
+        }
+        return { variants: matches, pinned: false };
+      }
+      console.log(`Cached variant ${row.variantId} for row ${row.row} no longer matches, searching by ${lookup.matchKey} ${lookup.value}`);
+    } catch (error) {
+      console.log(`Cached variant ${row.variantId} for row ${row.row} could not be loaded, searching by ${lookup.matchKey} ${lookup.value}`);
+    }
+  }
+
+  return { variants: await shopify.findVariants(lookup), pinned: false };
+}
+
+// Narrows the variants sharing a row's match value down to the ones the store's duplicate policy updates;
+// an empty result means the row is skipped and flagged. The variant ID cached in the sheet only settles it
+// under 'prefer_cached': older syncs wrote back whichever variant happened to match first.
+function applyDuplicatePolicy(policy: string, variants: ShopifyVariant[], row: SheetRowData): ShopifyVariant[] {
+  if (variants.length <= 1 || policy === 'update_all') {
+    return variants;
+  }
+
+  if (policy === 'prefer_active') {
+    const active = variants.filter(variant => variant.product_status === 'active');
+    return active.length === 1 ? active : [];
+  }
+
+  if (policy === 'prefer_cached') {
+    const cached = variants.find(variant => variant.id === row.variantId);
+    if (cached) {
+      console.log(`Row ${row.row} matches ${variants.length} variants, using variant ${cached.id} cached in the sheet`);
+      return [cached];
+    }
+  }
+
+  return [];
+}
+
+interface VariantTurn {
+  // Waits until every earlier row holding one of these variants is done. `repeated` is set when an earlier
+  // row of the sync already had one of them, so variants read before the wait may be out of date.
+  claim(variantIds: string[]): Promise<{ repeated: boolean; release: () => void }>;
+  // Gives up the row's place without claiming anything; a no-op once the row has claimed
+  skip(): void;
+}
+
+// Rows in flight at the same time can resolve to the same variant. Turns are reserved in sheet order and
+// claimed once a row knows its variants, so the later sheet row always writes a shared variant last.
+class VariantTurns {
+  private registered: Promise<void> = Promise.resolve();
+  private tails = new Map<string, Promise<void>>();
+
+  // Must be called in sheet order, and each turn must be claimed or skipped
+  reserve(): VariantTurn {
+    const previous = this.registered;
+    let register!: () => void;
+    this.registered = new Promise(resolve => { register = resolve; });
+    let settled = false;
+
+    return {
+      claim: async (variantIds) => {
+        settled = true;
+        await previous;
+
+        let release!: () => void;
+        const done = new Promise<void>(resolve => { release = resolve; });
+        const uniqueIds = Array.from(new Set(variantIds));
+        const repeated = uniqueIds.some(id => this.tails.has(id));
+        const waits = uniqueIds.map(id => this.tails.get(id) || Promise.resolve());
+        uniqueIds.forEach(id => this.tails.set(id, done));
+        register();
+
+        await Promise.all(waits);
+        return { repeated, release };
+      },
+      skip: () => {
+        if (settled) return;
+        settled = true;
+        previous.then(register);
+      },
+    };
+  }
 }
 
 export class SyncService {
+  // Stores whose jobs this process is executing; false once a stop was requested
   private activeSyncs = new Map<string, boolean>();
   private websocketClients = new Set<WebSocket>();
 
@@ -26,8 +219,13 @@ export class SyncService {
     });
   }
 
-  private broadcastUpdate(data: any) {
-    const message = JSON.stringify(data);
+  // Forwards events published by any worker process to this server's WebSocket clients
+  startEventRelay(): void {
+    subscribeToSyncEvents(event => this.deliverToWebSocketClients(event));
+  }
+
+  private deliverToWebSocketClients(event: SyncEvent) {
+    const message = JSON.stringify(event);
     this.websocketClients.forEach(ws => {
       if (ws.readyState === WebSocket.OPEN) {
         ws.send(message);
@@ -35,9 +233,28 @@ export class SyncService {
     });
   }
 
-  async startSync(storeId: string, sheetId: string): Promise<string> {
-    // Check if sync already running for this store
-    if (this.activeSyncs.get(storeId)) {
+  private broadcastUpdate(data: SyncEvent) {
+    publishSyncEvent(data);
+  }
+
+  // Queues the session for a worker; the web server never runs sessions itself
+  private async enqueueSession(session: SyncSession, payload?: SyncJobPayload): Promise<void> {
+    await storage.createSyncJob({
+      sessionId: session.id,
+      storeId: session.storeId,
+      payload,
+    });
+
+    this.broadcastUpdate({
+      type: 'job_queued',
+      sessionId: session.id,
+      storeId: session.storeId,
+    });
+  }
+
+  async startSync(storeId: string, sheetId: string, options: SyncOptions = {}): Promise<string> {
+    // Check if sync already queued or running for this store
+    if (await storage.getCurrentSyncSession(storeId)) {
       throw new Error('Sync already running for this store');
     }
 
@@ -49,49 +266,272 @@ export class SyncService {
       throw new Error('Store or sheet not found');
     }
 
+    // Previews never write, so there is nothing to hold for approval
+    const approvalThresholdPercent = options.dryRun ? undefined : options.approvalThresholdPercent;
+
     // Create sync session
     const session = await storage.createSyncSession({
       storeId,
       sheetId,
-      status: 'running',
+      type: options.dryRun ? 'dry_run' : 'sync',
+      status: 'queued',
+      approvalThresholdPercent: approvalThresholdPercent?.toString(),
     });
 
-    // Mark sync as active
-    this.activeSyncs.set(storeId, true);
+    await this.enqueueSession(session);
 
-    // Start sync process asynchronously
-    this.performSync(session.id, store, sheet).catch(error => {
-      console.error('Sync error:', error);
+    return session.id;
+  }
+
+  async resumeSync(sessionId: string): Promise<string> {
+    const session = await storage.getSyncSession(sessionId);
+    if (!session) {
+      throw new Error('Sync session not found');
+    }
+
+    if (session.type !== 'sync' && session.type !== 'dry_run') {
+      throw new Error('Only sync and preview sessions can be resumed');
+    }
+
+    if (session.status === 'completed') {
+      throw new Error('Sync session already completed');
+    }
+
+    if (session.status === 'queued' || session.status === 'running') {
+      throw new Error('Sync session is still running');
+    }
+
+    if (await storage.getCurrentSyncSession(session.storeId)) {
+      throw new Error('Sync already running for this store');
+    }
+
+    const resumed = await storage.updateSyncSession(session.id, {
+      status: 'queued',
+      completedAt: null,
+    });
+
+    // The worker picks up from the session's checkpoint
+    await this.enqueueSession(resumed);
+
+    return resumed.id;
+  }
+
+  async startRollback(originalSessionId: string): Promise<string> {
+    const original = await storage.getSyncSession(originalSessionId);
+    if (!original) {
+      throw new Error('Sync session not found');
+    }
+
+    if (original.type === 'dry_run') {
+      throw new Error('Preview sessions did not change any prices');
+    }
+
+    if (original.status === 'queued' || original.status === 'running') {
+      throw new Error('Cannot roll back a session that is still running');
+    }
+
+    if (await storage.getCurrentSyncSession(original.storeId)) {
+      throw new Error('Sync already running for this store');
+    }
+
+    const store = await storage.getStore(original.storeId);
+    if (!store) {
+      throw new Error('Store not found');
+    }
+
+    const session = await storage.createSyncSession({
+      storeId: original.storeId,
+      sheetId: original.sheetId,
+      type: 'rollback',
+      parentSessionId: original.id,
+      status: 'queued',
     });
 
+    await this.enqueueSession(session);
+
     return session.id;
   }
 
-  async stopSync(storeId: string): Promise<void> {
-    this.activeSyncs.set(storeId, false);
-    
-    // Update any running sessions to stopped
-    const currentSession = await storage.getCurrentSyncSession(storeId);
-    if (currentSession) {
-      await storage.updateSyncSession(currentSession.id, {
-        status: 'stopped',
+  // Runs a claimed job's session to the end. Errors are reported through the outcome so the
+  // worker can decide between requeueing the job and giving up on it.
+  async executeJob(job: SyncJob): Promise<JobOutcome> {
+    const session = await storage.getSyncSession(job.sessionId);
+
+    // Stopped or cleared before a worker got to it
+    if (!session || session.status !== 'queued') {
+      return { status: 'cancelled' };
+    }
+
+    const running = await storage.updateSyncSession(session.id, {
+      status: 'running',
+      completedAt: null,
+    });
+
+    this.activeSyncs.set(session.storeId, true);
+    const heartbeat = this.startHeartbeat(session.id);
+    let outcome: JobOutcome = { status: 'completed' };
+
+    try {
+      const store = await storage.getStore(session.storeId);
+      if (!store) {
+        throw new Error('Store not found');
+      }
+
+      if (session.type === 'rollback') {
+        await this.performRollback(session.id, session.parentSessionId!, store);
+      } else if (session.type === 'approval') {
+        // Changes rejected, superseded or applied since the job was queued are skipped
+        const changes = await storage.getPendingChangesByIds(job.payload?.changeIds || []);
+        await this.performApproval(session.id, changes.filter(change => change.status === 'approved'), store);
+      } else {
+        const sheet = await storage.getGoogleSheet(session.sheetId);
+        if (!sheet) {
+          throw new Error('Sheet not found');
+        }
+
+        // Retried and resumed sessions continue from their checkpoint
+        await this.performSync(session.id, store, sheet, {
+          dryRun: session.type === 'dry_run',
+          approvalThresholdPercent: session.approvalThresholdPercent ? parseFloat(session.approvalThresholdPercent) : undefined,
+        }, running);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const stopped = this.activeSyncs.get(session.storeId) === false;
+      outcome = { status: job.attempts < job.maxAttempts && !stopped ? 'retry' : 'failed', error: message };
+
+      console.error(`Sync job ${job.id} (attempt ${job.attempts} of ${job.maxAttempts}) failed:`, error);
+
+      if (outcome.status === 'retry') {
+        await storage.updateSyncSession(session.id, {
+          status: 'queued',
+        });
+
+        this.broadcastUpdate({
+          type: 'sync_retry',
+          sessionId: session.id,
+          storeId: session.storeId,
+          attempt: job.attempts,
+          error: message,
+        });
+      } else {
+        await storage.updateSyncSession(session.id, {
+          status: 'failed',
+          completedAt: new Date(),
+        });
+
+        this.broadcastUpdate({
+          type: 'sync_error',
+          sessionId: session.id,
+          storeId: session.storeId,
+          error: message,
+        });
+      }
+    } finally {
+      clearInterval(heartbeat);
+
+      // A failed approval run doesn't chain into another one, and a retry holds on to the store
+      const applyApproved = outcome.status === 'completed'
+        || (outcome.status === 'failed' && session.type !== 'approval');
+      this.releaseStore(session.storeId, applyApproved);
+    }
+
+    return outcome;
+  }
+
+  async recoverOrphanedSessions(options: OrphanRecoveryOptions = {}): Promise<SyncSession[]> {
+    const runningSessions = await storage.getRunningSyncSessions();
+    const staleBefore = Date.now() - HEARTBEAT_STALE_MS;
+    const interrupted: SyncSession[] = [];
+
+    for (const session of runningSessions) {
+      // Sessions owned by this process are alive by definition
+      if (this.activeSyncs.has(session.storeId)) {
+        continue;
+      }
+
+      const lastSeen = session.heartbeatAt || session.startedAt;
+      if (lastSeen && lastSeen.getTime() > staleBefore) {
+        continue;
+      }
+
+      // Sessions backed by a job are recovered through the job's own heartbeat
+      if (await storage.getActiveSyncJob(session.id)) {
+        continue;
+      }
+
+      const updated = await storage.updateSyncSession(session.id, {
+        status: 'interrupted',
         completedAt: new Date(),
       });
+      interrupted.push(updated);
+
+      console.log(`Marked orphaned sync session ${session.id} as interrupted`);
+
+      this.broadcastUpdate({
+        type: 'sync_complete',
+        sessionId: session.id,
+        storeId: session.storeId,
+      });
+    }
+
+    if (options.autoResume) {
+      for (const session of interrupted) {
+        if (session.type !== 'sync' && session.type !== 'dry_run') {
+          continue;
+        }
+
+        try {
+          await this.resumeSync(session.id);
+          console.log(`Auto-resumed sync session ${session.id}`);
+        } catch (error) {
+          console.error(`Failed to auto-resume sync session ${session.id}:`, error);
+        }
+      }
+    }
+
+    return interrupted;
+  }
+
+  private startHeartbeat(sessionId: string): NodeJS.Timeout {
+    const beat = () => storage.updateSyncSession(sessionId, { heartbeatAt: new Date() }).catch(error => {
+      console.error(`Failed to record heartbeat for session ${sessionId}:`, error);
+    });
+
+    beat();
+    return setInterval(beat, HEARTBEAT_INTERVAL_MS);
+  }
+
+  // Asks this process's running session for the store to stop after the current row
+  signalStop(storeId: string): void {
+    if (this.activeSyncs.has(storeId)) {
+      this.activeSyncs.set(storeId, false);
     }
   }
 
-  async clearSession(storeId: string): Promise<void> {
-    // Stop any active sync
-    this.activeSyncs.set(storeId, false);
-    
-    // Mark any running session as stopped so it goes to history
+  async stopSync(storeId: string): Promise<void> {
+    this.signalStop(storeId);
+
+    // Update any queued or running session to stopped; the worker running it hears about it through sync_stop
     const currentSession = await storage.getCurrentSyncSession(storeId);
     if (currentSession) {
       await storage.updateSyncSession(currentSession.id, {
         status: 'stopped',
         completedAt: new Date(),
       });
+      await storage.cancelQueuedSyncJobs(currentSession.id);
+
+      this.broadcastUpdate({
+        type: 'sync_stop',
+        sessionId: currentSession.id,
+        storeId,
+      });
     }
+  }
+
+  async clearSession(storeId: string): Promise<void> {
+    // Stop any active sync and mark its session as stopped so it goes to history
+    await this.stopSync(storeId);
 
     // Broadcast clear update
     this.broadcastUpdate({
@@ -100,150 +540,238 @@ export class SyncService {
     });
   }
 
-  private async performSync(sessionId: string, store: any, sheet: any): Promise<void> {
-    const shopify = new ShopifyService(store.shopifyUrl, store.accessToken);
+  private async performSync(sessionId: string, store: any, sheet: any, options: SyncOptions = {}, resumeFrom?: SyncSession): Promise<void> {
+    const shopify = createShopifyClient(store);
     const googleSheets = new GoogleSheetsService(sheet.serviceAccountJson || undefined);
+    const dryRun = options.dryRun === true;
 
     try {
-      // Add ID header to sheet if not present
-      await googleSheets.updateSheetHeader(sheet.sheetId, sheet.sheetName);
+      const mapping = sheet.columnMapping || defaultColumnMapping;
+
+      // Add write-back headers to sheet if not present (dry runs never write to the sheet)
+      const writeColumns = dryRun
+        ? null
+        : await googleSheets.updateSheetHeader(sheet.sheetId, sheet.sheetName, mapping);
+      const variantIdColumn = writeColumns?.variantId;
+      const writesStatus = !!(writeColumns?.status || writeColumns?.oldPrice || writeColumns?.syncedAt);
       
       // Get sheet data
-      const sheetData = await googleSheets.getSheetData(sheet.sheetId, sheet.sheetName);
+      const sheetData = await googleSheets.getSheetData(sheet.sheetId, sheet.sheetName, mapping);
       
       // Update session with total count
       await storage.updateSyncSession(sessionId, {
         totalSkus: sheetData.length,
       });
 
-      let processedCount = 0;
-      let updatedCount = 0;
-      let notFoundCount = 0;
-      let errorCount = 0;
-
-      // Process each SKU using queue system with delays
-      for (const row of sheetData) {
-        // Check if sync should stop
-        if (!this.activeSyncs.get(store.id)) {
-          break;
-        }
+      // Sheet write-backs are flushed in batches; a failed flush is logged against every row it carried
+      const skusByRow = new Map(sheetData.map(row => [row.row, row.sku]));
+      googleSheets.configureWriteBuffer({
+        onFlushError: async (error, rows) => {
+          const message = `Sheet write-back failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
 
-        try {
-          // Broadcast current processing status
-          this.broadcastUpdate({
-            type: 'sync_progress',
-            sessionId,
-            storeId: store.id,
-            currentSku: row.sku,
-            processedSkus: processedCount,
-            totalSkus: sheetData.length,
-          });
-
-          // Add delay between each SKU processing (queue system)
-          if (processedCount > 0) {
-            await new Promise(resolve => setTimeout(resolve, 1000)); // 1 second between each SKU
-          }
-
-          // Find variant in Shopify
-          const variant = await shopify.findVariantBySku(row.sku);
-          
-          if (!variant) {
-            // Log not found
+          for (const rowIndex of rows) {
+            const sku = skusByRow.get(rowIndex) || `row ${rowIndex}`;
             await storage.createSyncLog({
               sessionId,
-              sku: row.sku,
-              status: 'not_found',
-              newPrice: row.variantPrice.toString(),
-              newComparePrice: row.compareAtPrice?.toString(),
+              sku,
+              status: 'error',
+              errorMessage: message,
             });
 
-            notFoundCount++;
-
             this.broadcastUpdate({
               type: 'sync_log',
               log: {
-                sku: row.sku,
-                status: 'not_found',
+                sku,
+                status: 'error',
+                error: message,
                 timestamp: new Date().toISOString(),
               }
             });
-          } else {
-            // Update prices
-            const oldPrice = parseFloat(variant.price);
-            const oldComparePrice = variant.compare_at_price ? parseFloat(variant.compare_at_price) : undefined;
-
-            await shopify.updateVariantPrice(
-              variant.id,
-              row.variantPrice,
-              row.compareAtPrice
-            );
+          }
+        },
+      });
 
-            // Log success
-            await storage.createSyncLog({
-              sessionId,
-              sku: row.sku,
-              status: 'success',
-              oldPrice: oldPrice.toString(),
-              newPrice: row.variantPrice.toString(),
-              oldComparePrice: oldComparePrice?.toString(),
-              newComparePrice: row.compareAtPrice?.toString(),
-              shopifyVariantId: variant.id,
-            });
+      // When resuming, carry the counters over and skip rows before the checkpoint
+      const counts: SyncCounts = {
+        processedSkus: resumeFrom?.processedSkus || 0,
+        updatedSkus: resumeFrom?.updatedSkus || 0,
+        unchangedSkus: resumeFrom?.unchangedSkus || 0,
+        notFoundSkus: resumeFrom?.notFoundSkus || 0,
+        blockedSkus: resumeFrom?.blockedSkus || 0,
+        heldSkus: resumeFrom?.heldSkus || 0,
+        duplicateSkus: resumeFrom?.duplicateSkus || 0,
+        errorCount: resumeFrom?.errorCount || 0,
+        inventoryUpdated: resumeFrom?.inventoryUpdated || 0,
+        inventoryUnchanged: resumeFrom?.inventoryUnchanged || 0,
+        inventoryErrors: resumeFrom?.inventoryErrors || 0,
+        costUpdated: resumeFrom?.costUpdated || 0,
+        costErrors: resumeFrom?.costErrors || 0,
+        marketPricesUpdated: resumeFrom?.marketPricesUpdated || 0,
+        marketPriceErrors: resumeFrom?.marketPriceErrors || 0,
+      };
+      const lastProcessedRow = resumeFrom?.lastProcessedRow || 0;
+      const remainingRows = sheetData.filter(row => row.row > lastProcessedRow);
+      const abortBlockedPercent = store.guardrails?.enabled ? store.guardrails.abortBlockedPercent : undefined;
+      let abortReason: string | null = null;
 
-            // Update variant ID in Google Sheets
-            await googleSheets.updateVariantId(sheet.sheetId, sheet.sheetName, row.row, variant.id);
+      // Records a finished row: logs, sheet write-backs, counters and the resume checkpoint
+      const recordRow = async (row: SheetRowData, result: RowResult) => {
+        for (const pendingChange of result.pendingChanges || []) {
+          await storage.supersedePendingChanges(store.id, pendingChange.shopifyVariantId);
+          await storage.createPendingChange(pendingChange);
+        }
 
-            updatedCount++;
+        for (const log of result.logs) {
+          await storage.createSyncLog(log);
 
-            this.broadcastUpdate({
-              type: 'sync_log',
-              log: {
-                sku: row.sku,
-                status: 'success',
-                oldPrice: oldPrice,
-                newPrice: row.variantPrice,
-                timestamp: new Date().toISOString(),
-              }
-            });
+          // A held change for a variant this sync wrote or found already correct would overwrite it when approved
+          const settlesVariant = log.status === 'success' || log.status === 'unchanged';
+          if ((log.kind ?? 'price') === 'price' && settlesVariant && log.shopifyVariantId) {
+            await storage.supersedePendingChanges(store.id, log.shopifyVariantId);
           }
-        } catch (error) {
-          console.error(`Error processing SKU ${row.sku}:`, error);
-          
-          // Log error
-          await storage.createSyncLog({
-            sessionId,
-            sku: row.sku,
-            status: 'error',
-            errorMessage: error instanceof Error ? error.message : 'Unknown error',
-            newPrice: row.variantPrice.toString(),
-            newComparePrice: row.compareAtPrice?.toString(),
-          });
-
-          errorCount++;
 
           this.broadcastUpdate({
             type: 'sync_log',
             log: {
-              sku: row.sku,
-              status: 'error',
-              error: error instanceof Error ? error.message : 'Unknown error',
+              sku: log.sku,
+              kind: log.kind || 'price',
+              status: log.status,
+              oldPrice: log.oldPrice,
+              newPrice: log.newPrice,
+              locationId: log.locationId,
+              oldQuantity: log.oldQuantity,
+              newQuantity: log.newQuantity,
+              oldCost: log.oldCost,
+              newCost: log.newCost,
+              priceListId: log.priceListId,
+              currency: log.currency,
+              error: log.errorMessage,
+              retryCount: log.retryCount,
               timestamp: new Date().toISOString(),
             }
           });
+
+          const fieldCounter = log.kind ? FIELD_COUNTERS[log.kind]?.[log.status] : undefined;
+          if (fieldCounter) {
+            counts[fieldCounter]++;
+          }
         }
 
-        processedCount++;
+        if (variantIdColumn && result.variantId && result.variantId !== row.variantId) {
+          await googleSheets.updateVariantId(sheet.sheetId, sheet.sheetName, row.row, result.variantId, variantIdColumn);
+        }
+
+        if (writeColumns && writesStatus) {
+          await googleSheets.updateSheetStatus(sheet.sheetId, sheet.sheetName, row.row, {
+            status: result.rowStatus,
+            oldPrice: result.rowOldPrice,
+            syncedAt: new Date(),
+          }, writeColumns);
+        }
+
+        counts[result.counter]++;
+        counts.processedSkus++;
 
         // Update session progress
         await storage.updateSyncSession(sessionId, {
-          processedSkus: processedCount,
-          updatedSkus: updatedCount,
-          notFoundSkus: notFoundCount,
-          errorCount,
+          ...counts,
+          lastProcessedRow: row.row,
         });
 
-        // Small delay to prevent rate limiting
-        await new Promise(resolve => setTimeout(resolve, 100));
+        // Many blocked rows usually mean a broken sheet (e.g. shifted columns) - stop before the rest goes out
+        if (!abortReason && abortBlockedPercent && counts.blockedSkus / sheetData.length * 100 > abortBlockedPercent) {
+          abortReason = `${counts.blockedSkus} of ${sheetData.length} rows blocked by guardrails (limit ${abortBlockedPercent}%)`;
+        }
+      };
+
+      // Rows are processed by a bounded pool but recorded strictly in sheet order, so logs read top to bottom
+      // and the checkpoint never skips a row that is still in flight. Rows already started when the sync is
+      // stopped or aborted are finished and recorded, since they may have written to Shopify.
+      const concurrency = Math.max(1, store.syncConcurrency || 1);
+      const variantTurns = new VariantTurns();
+      const finished = new Map<number, RowResult>();
+      let nextIndex = 0;
+      let recordIndex = 0;
+      let recording: Promise<void> = Promise.resolve();
+      let stopTaking = false;
+
+      const recordFinished = async () => {
+        while (finished.has(recordIndex)) {
+          const result = finished.get(recordIndex)!;
+          finished.delete(recordIndex);
+          await recordRow(remainingRows[recordIndex], result);
+          recordIndex++;
+        }
+      };
+
+      const runPool = async () => {
+        try {
+          while (!stopTaking && !abortReason && nextIndex < remainingRows.length) {
+            // Check if sync should stop
+            if (!this.activeSyncs.get(store.id)) {
+              stopTaking = true;
+              break;
+            }
+
+            const index = nextIndex++;
+            const row = remainingRows[index];
+
+            // Broadcast current processing status
+            this.broadcastUpdate({
+              type: 'sync_progress',
+              sessionId,
+              storeId: store.id,
+              currentSku: row.sku,
+              processedSkus: counts.processedSkus,
+              totalSkus: sheetData.length,
+              sessionType: dryRun ? 'dry_run' : 'sync',
+            });
+
+            const turn = variantTurns.reserve();
+            try {
+              finished.set(index, await this.processRow(sessionId, shopify, store, sheet, row, turn, options));
+            } finally {
+              turn.skip();
+            }
+
+            // Waiting on the recorder also keeps a fast pool from running far ahead of a slow database
+            recording = recording.then(recordFinished);
+            await recording;
+          }
+        } catch (error) {
+          stopTaking = true;
+          throw error;
+        }
+      };
+
+      // A failed pool stops the others taking rows, but rows they already started may have written to Shopify,
+      // so every pool settles and the recorder drains before the session is requeued or failed
+      const pools = await Promise.allSettled(Array.from({ length: Math.min(concurrency, remainingRows.length) }, runPool));
+      await recording.catch(() => undefined);
+
+      const failedPool = pools.find((pool): pool is PromiseRejectedResult => pool.status === 'rejected');
+      if (failedPool) {
+        throw failedPool.reason;
+      }
+
+      // Write out whatever is still buffered before the session is reported as done
+      await googleSheets.flushWrites();
+
+      if (abortReason) {
+        console.warn(`Sync ${sessionId} aborted: ${abortReason}`);
+
+        await storage.updateSyncSession(sessionId, {
+          status: 'aborted',
+          completedAt: new Date(),
+        });
+
+        this.broadcastUpdate({
+          type: 'sync_error',
+          sessionId,
+          storeId: store.id,
+          error: `Sync aborted: ${abortReason}`,
+        });
+        return;
       }
 
       // Complete sync
@@ -258,25 +786,796 @@ export class SyncService {
         storeId: store.id,
       });
 
+    } finally {
+      // Failed sessions still write back the rows they got through
+      await googleSheets.flushWrites();
+    }
+  }
+
+  // Resolves one sheet row against Shopify and writes its price unless it is unchanged, blocked, held or
+  // previewed. Nothing is recorded here; performSync records results in sheet order.
+  private async processRow(
+    sessionId: string,
+    shopify: ShopifyClient,
+    store: any,
+    sheet: any,
+    row: SheetRowData,
+    turn: VariantTurn,
+    options: SyncOptions,
+  ): Promise<RowResult> {
+    // The sheet may hold cost rather than retail price; the store's rules produce the price to sync
+    const pricing = applyPricingRules(store.pricingRules, row.variantPrice, row.compareAtPrice, row.cost);
+
+    // Shopify retries made for this row, recorded on its log entries
+    const retryCounter: RetryCounter = { retries: 0 };
+
+    const planned = {
+      sessionId,
+      sku: row.sku,
+      newPrice: pricing.price.toString(),
+      newComparePrice: pricing.compareAtPrice?.toString(),
+      sheetPrice: row.variantPrice.toString(),
+      pricingRule: pricing.appliedRule,
+    };
+
+    // Falling back to the sheet price would mark up a retail price as if it were cost
+    if (row.cost === undefined && usesCost(store.pricingRules)) {
+      const errorMessage = 'No cost in the sheet for cost-based pricing';
+      return {
+        logs: [{ ...planned, status: 'error', errorMessage }],
+        counter: 'errorCount',
+        rowStatus: `error: ${errorMessage}`,
+      };
+    }
+
+    const lookup = toVariantLookup(sheet.columnMapping?.matchKey || 'sku', row);
+    let resolved: ResolvedVariants;
+    try {
+      // Find variants in Shopify
+      resolved = await runWithRetryCounter(retryCounter, () => resolveVariants(shopify, row, lookup));
     } catch (error) {
-      console.error('Sync failed:', error);
-      
-      // Mark session as failed
+      console.error(`Error processing SKU ${row.sku}:`, error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      return {
+        logs: [{ ...planned, status: 'error', errorMessage, retryCount: retryCounter.retries }],
+        counter: 'errorCount',
+        rowStatus: `error: ${errorMessage}`,
+      };
+    }
+
+    const matches = resolved.variants;
+    if (matches.length === 0) {
+      return {
+        logs: [{ ...planned, status: 'not_found', retryCount: retryCounter.retries }],
+        counter: 'notFoundSkus',
+        rowStatus: 'not_found',
+      };
+    }
+
+    let variants = resolved.pinned ? matches : applyDuplicatePolicy(store.duplicateSkuPolicy, matches, row);
+
+    if (variants.length === 0) {
+      // Nothing is written until the SKU is made unique or the store's policy picks a variant
+      const errorMessage = `Row matches ${matches.length} variants: ${matches.map(variant => variant.id).join(', ')}`;
+      return {
+        logs: [{ ...planned, status: 'duplicate_sku', errorMessage, retryCount: retryCounter.retries }],
+        counter: 'duplicateSkus',
+        rowStatus: `duplicate: ${matches.length} variants`,
+      };
+    }
+
+    const { repeated, release } = await turn.claim(variants.map(variant => variant.id));
+    try {
+      // An earlier row may have written these variants since they were looked up; catalog-backed clients
+      // already hold the new values, search mode reads them again
+      if (repeated) {
+        try {
+          const current = await runWithRetryCounter(retryCounter, () => Promise.all(
+            variants.map(variant => shopify.findCachedVariant(variant.id, lookup))
+          ));
+          variants = variants.map((variant, index) => current[index] || variant);
+        } catch (error) {
+          console.error(`Error processing SKU ${row.sku}:`, error);
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+          return {
+            logs: [{ ...planned, status: 'error', errorMessage, retryCount: retryCounter.retries }],
+            counter: 'errorCount',
+            rowStatus: `error: ${errorMessage}`,
+          };
+        }
+      }
+
+      return await this.processMatches(sessionId, shopify, store, sheet, row, variants, pricing, planned, retryCounter, options);
+    } finally {
+      release();
+    }
+  }
+
+  // Syncs the row to each variant it resolved to
+  private async processMatches(
+    sessionId: string,
+    shopify: ShopifyClient,
+    store: any,
+    sheet: any,
+    row: SheetRowData,
+    variants: ShopifyVariant[],
+    pricing: ReturnType<typeof applyPricingRules>,
+    planned: Omit<InsertSyncLog, 'status'>,
+    retryCounter: RetryCounter,
+    options: SyncOptions,
+  ): Promise<RowResult> {
+    // Quantities, cost and market prices are synced for every variant whose price is, whatever happened to the price
+    const processMatch = async (variant: ShopifyVariant) => {
+      const result = await this.processVariant(sessionId, shopify, store, sheet, row, variant, pricing, planned, retryCounter, options);
+      if (row.quantities) {
+        result.logs.push(...await this.processInventory(sessionId, shopify, row, variant, retryCounter, options));
+      }
+      if (row.cost !== undefined) {
+        result.logs.push(await this.processCost(sessionId, shopify, row, variant, retryCounter, options));
+      }
+      if (row.marketPrices) {
+        result.logs.push(...await this.processMarketPrices(sessionId, shopify, row, variant, retryCounter, options));
+      }
+      return result;
+    };
+
+    if (variants.length === 1) {
+      return processMatch(variants[0]);
+    }
+
+    const results: RowResult[] = [];
+    for (const variant of variants) {
+      results.push(await processMatch(variant));
+    }
+
+    // Several variant IDs can't be cached in one cell, so nothing is written back to the variant ID column
+    const worst = results.reduce((a, b) => COUNTER_SEVERITY.indexOf(b.counter) < COUNTER_SEVERITY.indexOf(a.counter) ? b : a);
+    return {
+      logs: results.flatMap(result => result.logs),
+      counter: worst.counter,
+      rowStatus: `${worst.rowStatus} (${variants.length} variants)`,
+      pendingChanges: results.flatMap(result => result.pendingChanges || []),
+    };
+  }
+
+  // Diffs one matched variant against the row's computed price and writes it when allowed
+  private async processVariant(
+    sessionId: string,
+    shopify: ShopifyClient,
+    store: any,
+    sheet: any,
+    row: SheetRowData,
+    variant: ShopifyVariant,
+    pricing: ReturnType<typeof applyPricingRules>,
+    planned: Omit<InsertSyncLog, 'status'>,
+    retryCounter: RetryCounter,
+    options: SyncOptions,
+  ): Promise<RowResult> {
+    // Captured before writing, since the client's catalog updates the variant object in place
+    const current = {
+      oldPrice: variant.price,
+      oldComparePrice: variant.compare_at_price,
+      shopifyVariantId: variant.id,
+    };
+
+    try {
+      const blockedReason = checkGuardrails(store.guardrails, variant, pricing.price, pricing.compareAtPrice);
+      const changePercent = priceChangePercent(variant.price, pricing.price);
+      const requiresApproval = options.approvalThresholdPercent !== undefined
+        && (changePercent === null || Math.abs(changePercent) > options.approvalThresholdPercent);
+
+      if (!hasPriceChanged(variant, pricing.price, pricing.compareAtPrice)) {
+        // Shopify already has the computed values - skip the write
+        return {
+          logs: [{ ...planned, ...current, status: 'unchanged', retryCount: retryCounter.retries }],
+          counter: 'unchangedSkus',
+          rowStatus: 'unchanged',
+          rowOldPrice: variant.price,
+          variantId: variant.id,
+        };
+      }
+
+      if (blockedReason) {
+        // A guardrail rejected the change - nothing is written, in dry runs or real syncs
+        return {
+          logs: [{ ...planned, ...current, status: 'blocked', errorMessage: blockedReason, retryCount: retryCounter.retries }],
+          counter: 'blockedSkus',
+          rowStatus: `blocked: ${blockedReason}`,
+          rowOldPrice: variant.price,
+        };
+      }
+
+      if (requiresApproval) {
+        // Hold the change for review - it's written later by applyApprovedChanges
+        return {
+          logs: [{ ...planned, ...current, status: 'held', retryCount: retryCounter.retries }],
+          counter: 'heldSkus',
+          rowStatus: 'awaiting approval',
+          rowOldPrice: variant.price,
+          pendingChanges: [{
+            sessionId,
+            storeId: store.id,
+            sheetId: sheet.id,
+            sku: row.sku,
+            shopifyVariantId: variant.id,
+            shopifyProductId: variant.product_id,
+            oldPrice: variant.price,
+            newPrice: pricing.price.toString(),
+            oldComparePrice: variant.compare_at_price,
+            newComparePrice: pricing.compareAtPrice?.toString(),
+            changePercent: changePercent?.toFixed(2),
+          }],
+        };
+      }
+
+      if (options.dryRun) {
+        // Log the planned change only - Shopify and the sheet are left untouched
+        return {
+          logs: [{ ...planned, ...current, status: 'planned', retryCount: retryCounter.retries }],
+          counter: 'updatedSkus',
+          rowStatus: 'planned',
+        };
+      }
+
+      // Update prices
+      await runWithRetryCounter(retryCounter, () => shopify.updateVariantPrice(
+        variant.id,
+        pricing.price,
+        pricing.compareAtPrice
+      ));
+
+      return {
+        logs: [{ ...planned, ...current, status: 'success', retryCount: retryCounter.retries }],
+        counter: 'updatedSkus',
+        rowStatus: 'updated',
+        rowOldPrice: current.oldPrice,
+        variantId: variant.id,
+      };
+    } catch (error) {
+      console.error(`Error processing SKU ${row.sku} (variant ${variant.id}):`, error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      return {
+        logs: [{ ...planned, shopifyVariantId: variant.id, status: 'error', errorMessage, retryCount: retryCounter.retries }],
+        counter: 'errorCount',
+        rowStatus: `error: ${errorMessage}`,
+      };
+    }
+  }
+
+  // Sets the row's quantity at each mapped location, one log per location. Prices and quantities are
+  // independent, so a blocked or held price doesn't hold back the inventory.
+  private async processInventory(
+    sessionId: string,
+    shopify: ShopifyClient,
+    row: SheetRowData,
+    variant: ShopifyVariant,
+    retryCounter: RetryCounter,
+    options: SyncOptions,
+  ): Promise<InsertSyncLog[]> {
+    const quantities = Object.entries(row.quantities || {});
+    const entry = (locationId: string) => ({
+      sessionId,
+      sku: row.sku,
+      kind: 'inventory',
+      shopifyVariantId: variant.id,
+      locationId,
+      newQuantity: row.quantities![locationId],
+    });
+
+    if (!variant.inventory_item_id) {
+      return quantities.map(([locationId]) => ({
+        ...entry(locationId),
+        status: 'error',
+        errorMessage: `Variant ${variant.id} has no inventory item`,
+        retryCount: retryCounter.retries,
+      }));
+    }
+    const inventoryItemId = variant.inventory_item_id;
+
+    let levels: Map<string, number>;
+    try {
+      levels = await runWithRetryCounter(retryCounter, () => shopify.getInventoryLevels(inventoryItemId));
+    } catch (error) {
+      console.error(`Error reading inventory of SKU ${row.sku}:`, error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return quantities.map(([locationId]) => ({ ...entry(locationId), status: 'error', errorMessage, retryCount: retryCounter.retries }));
+    }
+
+    const logs: InsertSyncLog[] = [];
+    const updates: InventoryQuantityUpdate[] = [];
+
+    for (const [locationId, quantity] of quantities) {
+      const oldQuantity = levels.get(locationId);
+      if (oldQuantity === quantity) {
+        logs.push({ ...entry(locationId), oldQuantity, status: 'unchanged', retryCount: retryCounter.retries });
+      } else {
+        updates.push({ locationId, quantity, compareQuantity: oldQuantity });
+      }
+    }
+
+    if (updates.length === 0) {
+      return logs;
+    }
+
+    if (options.dryRun) {
+      return [...logs, ...updates.map(update => ({
+        ...entry(update.locationId),
+        oldQuantity: update.compareQuantity,
+        status: 'planned',
+        retryCount: retryCounter.retries,
+      }))];
+    }
+
+    const results = await runWithRetryCounter(retryCounter, () => shopify.setInventoryQuantities(inventoryItemId, updates));
+    const errorsByLocation = new Map(results.map(result => [result.locationId, result.error]));
+
+    for (const update of updates) {
+      const errorMessage = errorsByLocation.get(update.locationId);
+      logs.push({
+        ...entry(update.locationId),
+        oldQuantity: update.compareQuantity,
+        status: errorMessage ? 'error' : 'success',
+        errorMessage,
+        retryCount: retryCounter.retries,
+      });
+    }
+
+    return logs;
+  }
+
+  // Writes the row's cost to the variant's inventory item so Shopify's margin reports use it
+  private async processCost(
+    sessionId: string,
+    shopify: ShopifyClient,
+    row: SheetRowData,
+    variant: ShopifyVariant,
+    retryCounter: RetryCounter,
+    options: SyncOptions,
+  ): Promise<InsertSyncLog> {
+    const entry = {
+      sessionId,
+      sku: row.sku,
+      kind: 'cost',
+      shopifyVariantId: variant.id,
+      newCost: row.cost!.toString(),
+    };
+
+    if (!variant.inventory_item_id) {
+      return { ...entry, status: 'error', errorMessage: `Variant ${variant.id} has no inventory item`, retryCount: retryCounter.retries };
+    }
+    const inventoryItemId = variant.inventory_item_id;
+
+    try {
+      // The GraphQL client reads cost along with the variant; REST variants need a separate request
+      const oldCost = variant.cost !== undefined
+        ? variant.cost
+        : await runWithRetryCounter(retryCounter, () => shopify.getInventoryItemCost(inventoryItemId));
+
+      if (pricesEqual(oldCost, row.cost)) {
+        return { ...entry, oldCost, status: 'unchanged', retryCount: retryCounter.retries };
+      }
+
+      if (options.dryRun) {
+        return { ...entry, oldCost, status: 'planned', retryCount: retryCounter.retries };
+      }
+
+      const newCost = await runWithRetryCounter(retryCounter, () => shopify.updateInventoryItemCost(inventoryItemId, row.cost!));
+      // Catalog variants are shared, so later rows for the same variant diff against the new cost
+      variant.cost = newCost;
+
+      return { ...entry, oldCost, newCost: newCost ?? entry.newCost, status: 'success', retryCount: retryCounter.retries };
+    } catch (error) {
+      console.error(`Error updating cost of SKU ${row.sku}:`, error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { ...entry, status: 'error', errorMessage, retryCount: retryCounter.retries };
+    }
+  }
+
+  // Sets the row's fixed price in each mapped market's price list, one log per price list. Sheet values
+  // are already in the list's currency and are written as they are, without the store's pricing rules.
+  private async processMarketPrices(
+    sessionId: string,
+    shopify: ShopifyClient,
+    row: SheetRowData,
+    variant: ShopifyVariant,
+    retryCounter: RetryCounter,
+    options: SyncOptions,
+  ): Promise<InsertSyncLog[]> {
+    const marketPrices = Object.entries(row.marketPrices || {});
+    const entry = (priceListId: string, currency?: string) => ({
+      sessionId,
+      sku: row.sku,
+      kind: 'market',
+      shopifyVariantId: variant.id,
+      priceListId,
+      currency,
+      newPrice: row.marketPrices![priceListId].toString(),
+    });
+
+    let priceLists: Map<string, ShopifyPriceList>;
+    let oldPrices: Map<string, string>;
+    try {
+      priceLists = new Map((await runWithRetryCounter(retryCounter, () => shopify.getPriceLists())).map(priceList => [priceList.id, priceList]));
+      const priceListIds = marketPrices.map(([priceListId]) => priceListId).filter(priceListId => priceLists.has(priceListId));
+      oldPrices = await runWithRetryCounter(retryCounter, () => shopify.getFixedPrices(variant, priceListIds));
+    } catch (error) {
+      console.error(`Error reading market prices of SKU ${row.sku}:`, error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return marketPrices.map(([priceListId]) => ({ ...entry(priceListId), status: 'error', errorMessage, retryCount: retryCounter.retries }));
+    }
+
+    const logs: InsertSyncLog[] = [];
+    const updates: FixedPriceUpdate[] = [];
+
+    for (const [priceListId, price] of marketPrices) {
+      const priceList = priceLists.get(priceListId);
+      if (!priceList) {
+        logs.push({ ...entry(priceListId), status: 'error', errorMessage: `Price list ${priceListId} not found`, retryCount: retryCounter.retries });
+      } else if (pricesEqual(oldPrices.get(priceListId), price)) {
+        logs.push({ ...entry(priceListId, priceList.currency), oldPrice: oldPrices.get(priceListId), status: 'unchanged', retryCount: retryCounter.retries });
+      } else {
+        updates.push({ priceListId, price, currency: priceList.currency });
+      }
+    }
+
+    if (updates.length === 0) {
+      return logs;
+    }
+
+    if (options.dryRun) {
+      return [...logs, ...updates.map(update => ({
+        ...entry(update.priceListId, update.currency),
+        oldPrice: oldPrices.get(update.priceListId),
+        status: 'planned',
+        retryCount: retryCounter.retries,
+      }))];
+    }
+
+    const results = await runWithRetryCounter(retryCounter, () => shopify.setFixedPrices(variant.id, updates));
+    const errorsByPriceList = new Map(results.map(result => [result.priceListId, result.error]));
+
+    for (const update of updates) {
+      const errorMessage = errorsByPriceList.get(update.priceListId);
+      logs.push({
+        ...entry(update.priceListId, update.currency),
+        oldPrice: oldPrices.get(update.priceListId),
+        status: errorMessage ? 'error' : 'success',
+        errorMessage,
+        retryCount: retryCounter.retries,
+      });
+    }
+
+    return logs;
+  }
+
+  private async performRollback(sessionId: string, originalSessionId: string, store: any): Promise<void> {
+    const shopify = createShopifyClient(store);
+
+    const successLogs = await storage.getSyncLogsByStatus(originalSessionId, 'success');
+
+    // Restore each variant to the value it had before the original session touched it,
+    // so only the earliest log per variant counts. Quantities aren't rolled back: orders placed since
+    // the sync have already moved them. Neither are costs, which come from the supplier rather than a pricing decision,
+    // nor market prices.
+    const restores = new Map<string, SyncLog>();
+    for (const log of successLogs) {
+      if (log.kind === 'price' && log.shopifyVariantId && log.oldPrice && !restores.has(log.shopifyVariantId)) {
+        restores.set(log.shopifyVariantId, log);
+      }
+    }
+
+    await storage.updateSyncSession(sessionId, {
+      totalSkus: restores.size,
+    });
+
+    let processedCount = 0;
+    let updatedCount = 0;
+    let errorCount = 0;
+
+    const entries = Array.from(restores.entries());
+
+    for (let i = 0; i < entries.length; i += PRICE_UPDATE_BATCH_SIZE) {
+      if (!this.activeSyncs.get(store.id)) {
+        break;
+      }
+
+      const batch = entries.slice(i, i + PRICE_UPDATE_BATCH_SIZE);
+
+      this.broadcastUpdate({
+        type: 'sync_progress',
+        sessionId,
+        storeId: store.id,
+        currentSku: batch[0][1].sku,
+        processedSkus: processedCount,
+        totalSkus: restores.size,
+        sessionType: 'rollback',
+      });
+
+      // Batched writes share their retries, so each log in the batch records the batch's count
+      const retryCounter: RetryCounter = { retries: 0 };
+      const results = await runWithRetryCounter(retryCounter, () => shopify.updateVariantPrices(batch.map(([variantId, log]) => ({
+        variantId,
+        price: parseFloat(log.oldPrice!),
+        compareAtPrice: log.oldComparePrice ? parseFloat(log.oldComparePrice) : null,
+      }))));
+      const resultsById = new Map(results.map(result => [result.variantId, result]));
+
+      for (const [variantId, log] of batch) {
+        const result = resultsById.get(variantId);
+
+        if (result && !result.error) {
+          await storage.createSyncLog({
+            sessionId,
+            sku: log.sku,
+            status: 'success',
+            oldPrice: log.newPrice,
+            newPrice: log.oldPrice,
+            oldComparePrice: log.newComparePrice,
+            newComparePrice: log.oldComparePrice,
+            shopifyVariantId: variantId,
+            retryCount: retryCounter.retries,
+          });
+
+          updatedCount++;
+
+          this.broadcastUpdate({
+            type: 'sync_log',
+            log: {
+              sku: log.sku,
+              status: 'success',
+              oldPrice: log.newPrice ? parseFloat(log.newPrice) : undefined,
+              newPrice: parseFloat(log.oldPrice!),
+              timestamp: new Date().toISOString(),
+            }
+          });
+        } else {
+          const errorMessage = result?.error || 'Variant was not updated';
+          console.error(`Error rolling back SKU ${log.sku}:`, errorMessage);
+
+          await storage.createSyncLog({
+            sessionId,
+            sku: log.sku,
+            status: 'error',
+            errorMessage,
+            newPrice: log.oldPrice,
+            newComparePrice: log.oldComparePrice,
+            shopifyVariantId: variantId,
+            retryCount: retryCounter.retries,
+          });
+
+          errorCount++;
+
+          this.broadcastUpdate({
+            type: 'sync_log',
+            log: {
+              sku: log.sku,
+              status: 'error',
+              error: errorMessage,
+              timestamp: new Date().toISOString(),
+            }
+          });
+        }
+
+        processedCount++;
+      }
+
       await storage.updateSyncSession(sessionId, {
-        status: 'failed',
-        completedAt: new Date(),
+        processedSkus: processedCount,
+        updatedSkus: updatedCount,
+        errorCount,
+      });
+    }
+
+    await storage.updateSyncSession(sessionId, {
+      status: this.activeSyncs.get(store.id) ? 'completed' : 'stopped',
+      completedAt: new Date(),
+    });
+
+    this.broadcastUpdate({
+      type: 'sync_complete',
+      sessionId,
+      storeId: store.id,
+    });
+  }
+
+  // Changes approved while the store was busy are picked up as soon as it frees up,
+  // unless the user stopped the session or the approval run itself failed
+  private releaseStore(storeId: string, applyApproved: boolean = true): void {
+    const stopped = this.activeSyncs.get(storeId) === false;
+    this.activeSyncs.delete(storeId);
+
+    if (applyApproved && !stopped) {
+      this.applyApprovedChanges(storeId).catch(error => {
+        console.error('Error applying approved changes:', error);
       });
+    }
+  }
+
+  async applyApprovedChanges(storeId: string): Promise<string | null> {
+    // The approval run is queued once the store's current session finishes
+    if (await storage.getCurrentSyncSession(storeId)) {
+      return null;
+    }
+
+    const store = await storage.getStore(storeId);
+    const approved = await storage.getPendingChanges(storeId, 'approved');
+
+    if (!store || approved.length === 0) {
+      return null;
+    }
+
+    const originSessionIds = new Set(approved.map(change => change.sessionId));
+    const session = await storage.createSyncSession({
+      storeId,
+      sheetId: approved[0].sheetId,
+      type: 'approval',
+      parentSessionId: originSessionIds.size === 1 ? approved[0].sessionId : null,
+      status: 'queued',
+    });
+
+    await this.enqueueSession(session, { changeIds: approved.map(change => change.id) });
+
+    return session.id;
+  }
+
+  private async performApproval(sessionId: string, changes: PendingChange[], store: any): Promise<void> {
+    const shopify = createShopifyClient(store);
+
+    await storage.updateSyncSession(sessionId, {
+      totalSkus: changes.length,
+    });
+
+    let processedCount = 0;
+    let updatedCount = 0;
+    let blockedCount = 0;
+    let errorCount = 0;
+
+    for (let i = 0; i < changes.length; i += PRICE_UPDATE_BATCH_SIZE) {
+      if (!this.activeSyncs.get(store.id)) {
+        break;
+      }
+
+      const batch = changes.slice(i, i + PRICE_UPDATE_BATCH_SIZE);
+      const retryCounter: RetryCounter = { retries: 0 };
 
       this.broadcastUpdate({
-        type: 'sync_error',
+        type: 'sync_progress',
         sessionId,
         storeId: store.id,
-        error: error instanceof Error ? error.message : 'Unknown error',
+        currentSku: batch[0].sku,
+        processedSkus: processedCount,
+        totalSkus: changes.length,
+        sessionType: 'approval',
+      });
+
+      // A change is only applied to the price it was worked out from; anything that moved the price
+      // since it was held (a later sync, a manual edit) supersedes it
+      const skipped = new Map<string, { status: 'superseded' | 'failed'; errorMessage: string }>();
+      for (const change of batch) {
+        try {
+          const variant = await runWithRetryCounter(retryCounter, () => shopify.getVariant(change.shopifyVariantId));
+          if (!pricesEqual(variant.price, change.oldPrice)) {
+            skipped.set(change.shopifyVariantId, {
+              status: 'superseded',
+              errorMessage: `Price changed to ${variant.price} since the change was held at ${change.oldPrice}`,
+            });
+          }
+        } catch (error) {
+          skipped.set(change.shopifyVariantId, {
+            status: 'failed',
+            errorMessage: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+
+      const toApply = batch.filter(change => !skipped.has(change.shopifyVariantId));
+      const results = toApply.length === 0 ? [] : await runWithRetryCounter(retryCounter, () => shopify.updateVariantPrices(toApply.map(change => ({
+        variantId: change.shopifyVariantId,
+        productId: change.shopifyProductId || undefined,
+        price: parseFloat(change.newPrice),
+        compareAtPrice: change.newComparePrice !== null ? parseFloat(change.newComparePrice) : undefined,
+      }))));
+      const resultsById = new Map(results.map(result => [result.variantId, result]));
+
+      for (const change of batch) {
+        const skip = skipped.get(change.shopifyVariantId);
+        const result = resultsById.get(change.shopifyVariantId);
+
+        if (!skip && result && !result.error) {
+          await storage.createSyncLog({
+            sessionId,
+            sku: change.sku,
+            status: 'success',
+            oldPrice: change.oldPrice,
+            newPrice: change.newPrice,
+            oldComparePrice: change.oldComparePrice,
+            newComparePrice: change.newComparePrice,
+            shopifyVariantId: change.shopifyVariantId,
+            retryCount: retryCounter.retries,
+          });
+          await storage.updatePendingChanges([change.id], {
+            status: 'applied',
+            appliedSessionId: sessionId,
+          });
+
+          updatedCount++;
+
+          this.broadcastUpdate({
+            type: 'sync_log',
+            log: {
+              sku: change.sku,
+              status: 'success',
+              oldPrice: change.oldPrice ? parseFloat(change.oldPrice) : undefined,
+              newPrice: parseFloat(change.newPrice),
+              timestamp: new Date().toISOString(),
+            }
+          });
+        } else {
+          const errorMessage = skip?.errorMessage || result?.error || 'Variant was not updated';
+          const superseded = skip?.status === 'superseded';
+          const logStatus = superseded ? 'blocked' : 'error';
+          if (!superseded) {
+            console.error(`Error applying approved change for SKU ${change.sku}:`, errorMessage);
+          }
+
+          await storage.createSyncLog({
+            sessionId,
+            sku: change.sku,
+            status: logStatus,
+            errorMessage,
+            oldPrice: change.oldPrice,
+            newPrice: change.newPrice,
+            newComparePrice: change.newComparePrice,
+            shopifyVariantId: change.shopifyVariantId,
+            retryCount: retryCounter.retries,
+          });
+          await storage.updatePendingChanges([change.id], {
+            status: superseded ? 'superseded' : 'failed',
+            errorMessage,
+            appliedSessionId: sessionId,
+          });
+
+          if (superseded) {
+            blockedCount++;
+          } else {
+            errorCount++;
+          }
+
+          this.broadcastUpdate({
+            type: 'sync_log',
+            log: {
+              sku: change.sku,
+              status: logStatus,
+              error: errorMessage,
+              timestamp: new Date().toISOString(),
+            }
+          });
+        }
+
+        processedCount++;
+      }
+
+      await storage.updateSyncSession(sessionId, {
+        processedSkus: processedCount,
+        updatedSkus: updatedCount,
+        blockedSkus: blockedCount,
+        errorCount,
       });
-    } finally {
-      // Remove from active syncs
-      this.activeSyncs.delete(store.id);
     }
+
+    await storage.updateSyncSession(sessionId, {
+      status: this.activeSyncs.get(store.id) ? 'completed' : 'stopped',
+      completedAt: new Date(),
+    });
+
+    this.broadcastUpdate({
+      type: 'sync_complete',
+      sessionId,
+      storeId: store.id,
+    });
   }
 
   async getSyncStatus(storeId: string): Promise<SyncProgress | null> {
@@ -289,9 +1588,21 @@ export class SyncService {
       totalSkus: session.totalSkus || 0,
       processedSkus: session.processedSkus || 0,
       updatedSkus: session.updatedSkus || 0,
+      unchangedSkus: session.unchangedSkus || 0,
       notFoundSkus: session.notFoundSkus || 0,
+      blockedSkus: session.blockedSkus || 0,
+      heldSkus: session.heldSkus || 0,
+      duplicateSkus: session.duplicateSkus || 0,
       errorCount: session.errorCount || 0,
+      inventoryUpdated: session.inventoryUpdated || 0,
+      inventoryUnchanged: session.inventoryUnchanged || 0,
+      inventoryErrors: session.inventoryErrors || 0,
+      costUpdated: session.costUpdated || 0,
+      costErrors: session.costErrors || 0,
+      marketPricesUpdated: session.marketPricesUpdated || 0,
+      marketPriceErrors: session.marketPriceErrors || 0,
       status: session.status,
+      sessionType: session.type,
     };
   }
 }
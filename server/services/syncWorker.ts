@@ -0,0 +1,190 @@
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import { storage } from '../storage';
+import { syncService, HEARTBEAT_INTERVAL_MS, HEARTBEAT_STALE_MS, type OrphanRecoveryOptions } from './syncService';
+import { publishSyncEvent, subscribeToSyncEvents } from './syncEvents';
+import type { SyncJob } from '@shared/schema';
+
+export interface SyncWorkerOptions extends OrphanRecoveryOptions {
+  // Jobs run at the same time, each for a different store
+  concurrency?: number;
+}
+
+// Queued jobs are also announced over sync events; polling covers events lost while reconnecting
+const POLL_INTERVAL_MS = 2 * 1000;
+
+// Failed attempts wait 30s, 60s, 120s... before a worker picks the job up again
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+
+export class SyncWorker {
+  readonly workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  private runningJobs = new Map<string, SyncJob>();
+  private timers: NodeJS.Timeout[] = [];
+  private unsubscribe: (() => void) | null = null;
+  private isPolling = false;
+  private pollAgain = false;
+  private concurrency = 4;
+  private recoveryOptions: OrphanRecoveryOptions = {};
+
+  start(options: SyncWorkerOptions = {}): void {
+    if (this.timers.length > 0) return;
+
+    this.concurrency = Math.max(1, options.concurrency ?? 4);
+    this.recoveryOptions = { autoResume: options.autoResume };
+
+    this.unsubscribe = subscribeToSyncEvents(event => {
+      if (event.type === 'job_queued') {
+        this.poll();
+      } else if (event.type === 'sync_stop' && event.storeId) {
+        syncService.signalStop(event.storeId);
+      }
+    });
+
+    this.timers.push(setInterval(() => this.poll(), POLL_INTERVAL_MS));
+    this.timers.push(setInterval(() => this.recover(), HEARTBEAT_STALE_MS));
+
+    console.log(`Sync worker ${this.workerId} started (concurrency ${this.concurrency})`);
+
+    // Jobs left behind by a previous process are picked up straight away
+    this.recover().then(() => this.poll());
+  }
+
+  stop(): void {
+    this.timers.forEach(timer => clearInterval(timer));
+    this.timers = [];
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  // Claims jobs until the worker is full or the queue is empty
+  private async poll(): Promise<void> {
+    if (this.isPolling) {
+      this.pollAgain = true;
+      return;
+    }
+    this.isPolling = true;
+
+    try {
+      do {
+        this.pollAgain = false;
+
+        while (this.runningJobs.size < this.concurrency) {
+          const job = await storage.claimSyncJob(this.workerId);
+          if (!job) break;
+
+          this.runningJobs.set(job.id, job);
+          this.runJob(job);
+        }
+      } while (this.pollAgain && this.runningJobs.size < this.concurrency);
+    } catch (error) {
+      console.error('Failed to claim sync jobs:', error);
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  private async runJob(job: SyncJob): Promise<void> {
+    console.log(`Worker ${this.workerId} claimed sync job ${job.id} (attempt ${job.attempts})`);
+
+    const heartbeat = setInterval(() => this.heartbeat(job), HEARTBEAT_INTERVAL_MS);
+
+    try {
+      const outcome = await syncService.executeJob(job);
+
+      if (outcome.status === 'retry') {
+        const delay = RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1);
+        await storage.updateSyncJob(job.id, {
+          status: 'queued',
+          runAt: new Date(Date.now() + delay),
+          lockedBy: null,
+          lockedAt: null,
+          lastError: outcome.error,
+        });
+      } else {
+        await storage.updateSyncJob(job.id, {
+          status: outcome.status,
+          lastError: outcome.status === 'failed' ? outcome.error : null,
+          completedAt: new Date(),
+        });
+      }
+    } catch (error) {
+      // executeJob reports failures through its outcome, so this is the job bookkeeping itself failing;
+      // the heartbeat stops and stale recovery takes the job over
+      console.error(`Failed to record result of sync job ${job.id}:`, error);
+    } finally {
+      clearInterval(heartbeat);
+      this.runningJobs.delete(job.id);
+      this.poll();
+    }
+  }
+
+  private async heartbeat(job: SyncJob): Promise<void> {
+    try {
+      const owned = await storage.heartbeatSyncJob(job.id, this.workerId);
+      const session = await storage.getSyncSession(job.sessionId);
+
+      // Lost the job to stale recovery, or the session was stopped and the sync_stop event missed
+      if (!owned || session?.status === 'stopped') {
+        syncService.signalStop(job.storeId);
+      }
+    } catch (error) {
+      console.error(`Failed to record heartbeat for sync job ${job.id}:`, error);
+    }
+  }
+
+  // Jobs whose worker stopped heartbeating are retried from their session checkpoint, or given up on
+  // once out of attempts. Sessions that never had a job are handled by the orphaned session recovery.
+  private async recover(): Promise<void> {
+    try {
+      const staleJobs = await storage.getStaleSyncJobs(new Date(Date.now() - HEARTBEAT_STALE_MS));
+
+      for (const job of staleJobs) {
+        if (this.runningJobs.has(job.id)) continue;
+
+        const session = await storage.getSyncSession(job.sessionId);
+        const sessionActive = session?.status === 'running' || session?.status === 'queued';
+
+        if (sessionActive && job.attempts < job.maxAttempts) {
+          await storage.updateSyncJob(job.id, {
+            status: 'queued',
+            runAt: new Date(),
+            lockedBy: null,
+            lockedAt: null,
+            lastError: `Worker ${job.lockedBy} stopped responding`,
+          });
+          await storage.updateSyncSession(job.sessionId, { status: 'queued' });
+
+          console.log(`Requeued stale sync job ${job.id} from worker ${job.lockedBy}`);
+          continue;
+        }
+
+        await storage.updateSyncJob(job.id, {
+          status: 'failed',
+          lastError: `Worker ${job.lockedBy} stopped responding`,
+          completedAt: new Date(),
+        });
+
+        if (sessionActive) {
+          await storage.updateSyncSession(job.sessionId, {
+            status: 'interrupted',
+            completedAt: new Date(),
+          });
+
+          publishSyncEvent({
+            type: 'sync_complete',
+            sessionId: job.sessionId,
+            storeId: job.storeId,
+          });
+        }
+
+        console.log(`Gave up on stale sync job ${job.id} after ${job.attempts} attempts`);
+      }
+
+      await syncService.recoverOrphanedSessions(this.recoveryOptions);
+    } catch (error) {
+      console.error('Sync job recovery failed:', error);
+    }
+  }
+}
+
+export const syncWorker = new SyncWorker();
@@ -0,0 +1,147 @@
+import type { MatchKey } from '@shared/schema';
+import type { DuplicateSku, ShopifyVariant } from './shopify';
+import type { SheetRowData } from './googleSheets';
+
+// What a sheet row is matched on in Shopify; `value` is the SKU, barcode, handle or variant ID
+export interface VariantLookup {
+  matchKey: MatchKey;
+  value: string;
+  optionValues?: string[]; // handle_options only, in option order
+}
+
+// Shopify's placeholder option on products without variants
+const DEFAULT_OPTION_VALUE = 'default title';
+
+// Drops case, whitespace and the separators suppliers disagree on ("AB-12 / x" matches "ab12x")
+function normalizeSku(sku: string): string {
+  return sku.toLowerCase().replace(/[\s\-_./]+/g, '');
+}
+
+// Sheets store GTINs as numbers, losing leading zeros, and UPC-A/EAN-13/GTIN-14 differ only in zero padding
+function normalizeBarcode(barcode: string): string {
+  return barcode.replace(/[^0-9a-z]/gi, '').replace(/^0+/, '').toLowerCase();
+}
+
+function handleOptionsKey(handle: string, optionValues: string[]): string {
+  const options = optionValues
+    .map(value => value.trim().toLowerCase())
+    .filter(value => value && value !== DEFAULT_OPTION_VALUE);
+  return [handle.trim().toLowerCase(), ...options].join('\u0000');
+}
+
+// The comparable key of a row's lookup, or null when the row has no value for it
+export function lookupKey(lookup: VariantLookup): string | null {
+  const value = lookup.value.trim();
+  if (!value) return null;
+
+  switch (lookup.matchKey) {
+    case 'sku_case_insensitive':
+      return value.toLowerCase();
+    case 'sku_normalized':
+      return normalizeSku(value) || null;
+    case 'barcode':
+      return normalizeBarcode(value) || null;
+    case 'handle_options':
+      return handleOptionsKey(value, lookup.optionValues || []);
+    default:
+      return value;
+  }
+}
+
+// The same key computed from a Shopify variant, so both sides compare equal when they match
+export function variantKey(matchKey: MatchKey, variant: ShopifyVariant): string | null {
+  switch (matchKey) {
+    case 'sku':
+      return variant.sku?.trim() || null;
+    case 'sku_case_insensitive':
+      return variant.sku ? variant.sku.trim().toLowerCase() : null;
+    case 'sku_normalized':
+      return variant.sku ? normalizeSku(variant.sku) || null : null;
+    case 'barcode':
+      return variant.barcode ? normalizeBarcode(variant.barcode) || null : null;
+    case 'handle_options':
+      return variant.handle ? handleOptionsKey(variant.handle, variant.options || []) : null;
+    case 'variant_id':
+      return variant.id;
+  }
+}
+
+export function matchesLookup(variant: ShopifyVariant, lookup: VariantLookup): boolean {
+  const key = lookupKey(lookup);
+  return key !== null && variantKey(lookup.matchKey, variant) === key;
+}
+
+export function toVariantLookup(matchKey: MatchKey, row: SheetRowData): VariantLookup {
+  switch (matchKey) {
+    case 'barcode':
+      return { matchKey, value: row.barcode || '' };
+    case 'handle_options':
+      return { matchKey, value: row.handle || '', optionValues: row.optionValues };
+    case 'variant_id':
+      return { matchKey, value: row.variantId || '' };
+    default:
+      return { matchKey, value: row.sku };
+  }
+}
+
+// Every variant of a store loaded once, with an index per match key built on first use.
+// Indexes share the variant objects, so recording an update keeps all of them current.
+export class VariantCatalog {
+  private variantsById = new Map<string, ShopifyVariant>();
+  private indexes = new Map<MatchKey, Map<string, ShopifyVariant[]>>();
+
+  get size(): number {
+    return this.variantsById.size;
+  }
+
+  clear(): void {
+    this.variantsById.clear();
+    this.indexes.clear();
+  }
+
+  add(variant: ShopifyVariant): void {
+    this.variantsById.set(variant.id, variant);
+    this.indexes.clear();
+  }
+
+  get(variantId: string): ShopifyVariant | undefined {
+    return this.variantsById.get(variantId);
+  }
+
+  find(lookup: VariantLookup): ShopifyVariant[] {
+    const key = lookupKey(lookup);
+    return key === null ? [] : this.getIndex(lookup.matchKey).get(key) || [];
+  }
+
+  // Copies the written fields onto the indexed variant so later rows diff against the new values
+  recordUpdate(updated: ShopifyVariant): void {
+    const existing = this.variantsById.get(updated.id);
+    if (existing) {
+      existing.price = updated.price;
+      existing.compare_at_price = updated.compare_at_price;
+    }
+  }
+
+  duplicateSkus(): DuplicateSku[] {
+    return Array.from(this.getIndex('sku').entries())
+      .filter(([, variants]) => variants.length > 1)
+      .map(([sku, variants]) => ({ sku, variants }));
+  }
+
+  private getIndex(matchKey: MatchKey): Map<string, ShopifyVariant[]> {
+    let index = this.indexes.get(matchKey);
+    if (!index) {
+      index = new Map();
+      for (const variant of Array.from(this.variantsById.values())) {
+        const key = variantKey(matchKey, variant);
+        if (key === null) continue;
+
+        const matches = index.get(key) || [];
+        matches.push(variant);
+        index.set(key, matches);
+      }
+      this.indexes.set(matchKey, index);
+    }
+    return index;
+  }
+}
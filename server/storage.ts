@@ -1,6 +1,6 @@
-import { stores, googleSheets, syncSessions, syncLogs, users, type Store, type InsertStore, type GoogleSheet, type InsertGoogleSheet, type SyncSession, type InsertSyncSession, type SyncLog, type InsertSyncLog, type User, type InsertUser } from "@shared/schema";
+import { stores, googleSheets, syncSessions, syncLogs, pendingChanges, schedules, syncJobs, users, type Store, type InsertStore, type GoogleSheet, type InsertGoogleSheet, type SyncSession, type InsertSyncSession, type SyncLog, type InsertSyncLog, type PendingChange, type InsertPendingChange, type Schedule, type InsertSchedule, type SyncJob, type InsertSyncJob, type User, type InsertUser } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and } from "drizzle-orm";
+import { eq, desc, asc, and, inArray, lte, lt, sql } from "drizzle-orm";
 
 export interface IStorage {
   // User methods (keep existing)
@@ -19,19 +19,48 @@ export interface IStorage {
   getGoogleSheets(storeId?: string): Promise<GoogleSheet[]>;
   getGoogleSheet(id: string): Promise<GoogleSheet | undefined>;
   createGoogleSheet(sheet: InsertGoogleSheet): Promise<GoogleSheet>;
-  updateGoogleSheet(id: string, sheet: Partial<InsertGoogleSheet>): Promise<GoogleSheet>;
+  updateGoogleSheet(id: string, sheet: Partial<InsertGoogleSheet>): Promise<GoogleSheet | undefined>;
   deleteGoogleSheet(id: string): Promise<void>;
   
   // Sync Session methods
   getSyncSessions(storeId?: string): Promise<SyncSession[]>;
+  getSyncSession(id: string): Promise<SyncSession | undefined>;
   getCurrentSyncSession(storeId: string): Promise<SyncSession | undefined>;
+  getRunningSyncSessions(): Promise<SyncSession[]>;
   createSyncSession(session: InsertSyncSession): Promise<SyncSession>;
   updateSyncSession(id: string, session: Partial<SyncSession>): Promise<SyncSession>;
   
   // Sync Log methods
   getSyncLogs(sessionId: string, limit?: number): Promise<SyncLog[]>;
+  getSyncLogsByStatus(sessionId: string, status: string, limit?: number): Promise<SyncLog[]>;
+  countSyncLogsByStatus(sessionId: string, status: string): Promise<number>;
   createSyncLog(log: InsertSyncLog): Promise<SyncLog>;
   getRecentLogs(limit: number): Promise<SyncLog[]>;
+
+  // Pending change methods
+  getPendingChanges(storeId?: string, status?: string): Promise<PendingChange[]>;
+  getPendingChangesByIds(ids: string[]): Promise<PendingChange[]>;
+  createPendingChange(change: InsertPendingChange): Promise<PendingChange>;
+  updatePendingChanges(ids: string[], change: Partial<PendingChange>): Promise<PendingChange[]>;
+  supersedePendingChanges(storeId: string, shopifyVariantId: string): Promise<void>;
+
+  // Schedule methods
+  getSchedules(storeId?: string): Promise<Schedule[]>;
+  getSchedule(id: string): Promise<Schedule | undefined>;
+  getDueSchedules(now: Date): Promise<Schedule[]>;
+  claimSchedule(id: string, dueAt: Date, schedule: Partial<Schedule>): Promise<Schedule | undefined>;
+  createSchedule(schedule: InsertSchedule & { nextRunAt: Date | null }): Promise<Schedule>;
+  updateSchedule(id: string, schedule: Partial<Schedule>): Promise<Schedule>;
+  deleteSchedule(id: string): Promise<void>;
+
+  // Sync job methods
+  createSyncJob(job: InsertSyncJob): Promise<SyncJob>;
+  claimSyncJob(workerId: string): Promise<SyncJob | undefined>;
+  updateSyncJob(id: string, job: Partial<SyncJob>): Promise<SyncJob>;
+  heartbeatSyncJob(id: string, workerId: string): Promise<boolean>;
+  getActiveSyncJob(sessionId: string): Promise<SyncJob | undefined>;
+  getStaleSyncJobs(before: Date): Promise<SyncJob[]>;
+  cancelQueuedSyncJobs(sessionId: string): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -107,13 +136,13 @@ export class DatabaseStorage implements IStorage {
     return newSheet;
   }
 
-  async updateGoogleSheet(id: string, sheet: Partial<InsertGoogleSheet>): Promise<GoogleSheet> {
+  async updateGoogleSheet(id: string, sheet: Partial<InsertGoogleSheet>): Promise<GoogleSheet | undefined> {
     const [updatedSheet] = await db
       .update(googleSheets)
       .set(sheet)
       .where(eq(googleSheets.id, id))
       .returning();
-    return updatedSheet;
+    return updatedSheet || undefined;
   }
 
   async deleteGoogleSheet(id: string): Promise<void> {
@@ -133,14 +162,25 @@ export class DatabaseStorage implements IStorage {
       .limit(50);
   }
 
+  async getSyncSession(id: string): Promise<SyncSession | undefined> {
+    const [session] = await db.select().from(syncSessions).where(eq(syncSessions.id, id));
+    return session || undefined;
+  }
+
   async getCurrentSyncSession(storeId: string): Promise<SyncSession | undefined> {
     const [session] = await db.select().from(syncSessions)
-      .where(and(eq(syncSessions.storeId, storeId), eq(syncSessions.status, 'running')))
+      .where(and(eq(syncSessions.storeId, storeId), inArray(syncSessions.status, ['queued', 'running'])))
       .orderBy(desc(syncSessions.startedAt))
       .limit(1);
     return session || undefined;
   }
 
+  async getRunningSyncSessions(): Promise<SyncSession[]> {
+    return await db.select().from(syncSessions)
+      .where(eq(syncSessions.status, 'running'))
+      .orderBy(desc(syncSessions.startedAt));
+  }
+
   async createSyncSession(session: InsertSyncSession): Promise<SyncSession> {
     const [newSession] = await db
       .insert(syncSessions)
@@ -166,6 +206,19 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
 
+  async getSyncLogsByStatus(sessionId: string, status: string, limit?: number): Promise<SyncLog[]> {
+    const query = db.select().from(syncLogs)
+      .where(and(eq(syncLogs.sessionId, sessionId), eq(syncLogs.status, status)))
+      .orderBy(asc(syncLogs.timestamp));
+    return await (limit ? query.limit(limit) : query);
+  }
+
+  async countSyncLogsByStatus(sessionId: string, status: string): Promise<number> {
+    const [result] = await db.select({ count: sql<number>`count(*)::int` }).from(syncLogs)
+      .where(and(eq(syncLogs.sessionId, sessionId), eq(syncLogs.status, status)));
+    return result?.count ?? 0;
+  }
+
   async createSyncLog(log: InsertSyncLog): Promise<SyncLog> {
     const [newLog] = await db
       .insert(syncLogs)
@@ -179,6 +232,191 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(syncLogs.timestamp))
       .limit(limit);
   }
+
+  // Pending change methods
+  async getPendingChanges(storeId?: string, status?: string): Promise<PendingChange[]> {
+    const conditions = [];
+    if (storeId) conditions.push(eq(pendingChanges.storeId, storeId));
+    if (status) conditions.push(eq(pendingChanges.status, status));
+
+    return await db.select().from(pendingChanges)
+      .where(and(...conditions))
+      .orderBy(desc(pendingChanges.createdAt));
+  }
+
+  async getPendingChangesByIds(ids: string[]): Promise<PendingChange[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(pendingChanges).where(inArray(pendingChanges.id, ids));
+  }
+
+  async createPendingChange(change: InsertPendingChange): Promise<PendingChange> {
+    const [newChange] = await db
+      .insert(pendingChanges)
+      .values(change)
+      .returning();
+    return newChange;
+  }
+
+  async updatePendingChanges(ids: string[], change: Partial<PendingChange>): Promise<PendingChange[]> {
+    if (ids.length === 0) return [];
+    return await db
+      .update(pendingChanges)
+      .set(change)
+      .where(inArray(pendingChanges.id, ids))
+      .returning();
+  }
+
+  // A newer held change, write or unchanged check for the same variant replaces any that haven't been applied yet
+  async supersedePendingChanges(storeId: string, shopifyVariantId: string): Promise<void> {
+    await db
+      .update(pendingChanges)
+      .set({ status: 'superseded' })
+      .where(and(
+        eq(pendingChanges.storeId, storeId),
+        eq(pendingChanges.shopifyVariantId, shopifyVariantId),
+        inArray(pendingChanges.status, ['pending', 'approved']),
+      ));
+  }
+
+  // Schedule methods
+  async getSchedules(storeId?: string): Promise<Schedule[]> {
+    if (storeId) {
+      return await db.select().from(schedules)
+        .where(eq(schedules.storeId, storeId))
+        .orderBy(asc(schedules.createdAt));
+    }
+    return await db.select().from(schedules).orderBy(asc(schedules.createdAt));
+  }
+
+  async getSchedule(id: string): Promise<Schedule | undefined> {
+    const [schedule] = await db.select().from(schedules).where(eq(schedules.id, id));
+    return schedule || undefined;
+  }
+
+  async getDueSchedules(now: Date): Promise<Schedule[]> {
+    return await db.select().from(schedules)
+      .where(and(eq(schedules.isActive, true), lte(schedules.nextRunAt, now)))
+      .orderBy(asc(schedules.nextRunAt));
+  }
+
+  // Advances a due schedule only if no other process has run it since it was read; undefined means it lost the race
+  async claimSchedule(id: string, dueAt: Date, schedule: Partial<Schedule>): Promise<Schedule | undefined> {
+    const [claimed] = await db
+      .update(schedules)
+      .set(schedule)
+      .where(and(eq(schedules.id, id), eq(schedules.nextRunAt, dueAt)))
+      .returning();
+    return claimed || undefined;
+  }
+
+  async createSchedule(schedule: InsertSchedule & { nextRunAt: Date | null }): Promise<Schedule> {
+    const [newSchedule] = await db
+      .insert(schedules)
+      .values(schedule)
+      .returning();
+    return newSchedule;
+  }
+
+  async updateSchedule(id: string, schedule: Partial<Schedule>): Promise<Schedule> {
+    const [updatedSchedule] = await db
+      .update(schedules)
+      .set(schedule)
+      .where(eq(schedules.id, id))
+      .returning();
+    return updatedSchedule;
+  }
+
+  async deleteSchedule(id: string): Promise<void> {
+    await db.delete(schedules).where(eq(schedules.id, id));
+  }
+
+  // Sync job methods
+  async createSyncJob(job: InsertSyncJob): Promise<SyncJob> {
+    const [newJob] = await db
+      .insert(syncJobs)
+      .values(job)
+      .returning();
+    return newJob;
+  }
+
+  // Claims the oldest due job whose store isn't already being worked on. SKIP LOCKED lets
+  // concurrent workers pass over rows another worker is claiming instead of waiting on them.
+  async claimSyncJob(workerId: string): Promise<SyncJob | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        const now = new Date();
+        const [job] = await tx.select().from(syncJobs)
+          .where(and(
+            eq(syncJobs.status, 'queued'),
+            lte(syncJobs.runAt, now),
+            sql`not exists (select 1 from sync_jobs running where running.store_id = ${syncJobs.storeId} and running.status = 'running')`,
+          ))
+          .orderBy(asc(syncJobs.runAt))
+          .limit(1)
+          .for('update', { skipLocked: true });
+
+        if (!job) return undefined;
+
+        const [claimed] = await tx
+          .update(syncJobs)
+          .set({
+            status: 'running',
+            attempts: sql`${syncJobs.attempts} + 1`,
+            lockedBy: workerId,
+            lockedAt: now,
+            heartbeatAt: now,
+          })
+          .where(eq(syncJobs.id, job.id))
+          .returning();
+        return claimed;
+      });
+    } catch (error) {
+      // Another worker claimed a job for the same store at the same moment (sync_jobs_running_store_idx)
+      if ((error as { code?: string }).code === '23505') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async updateSyncJob(id: string, job: Partial<SyncJob>): Promise<SyncJob> {
+    const [updatedJob] = await db
+      .update(syncJobs)
+      .set(job)
+      .where(eq(syncJobs.id, id))
+      .returning();
+    return updatedJob;
+  }
+
+  // False once the job is no longer running under this worker (e.g. it was requeued as stale)
+  async heartbeatSyncJob(id: string, workerId: string): Promise<boolean> {
+    const updated = await db
+      .update(syncJobs)
+      .set({ heartbeatAt: new Date() })
+      .where(and(eq(syncJobs.id, id), eq(syncJobs.lockedBy, workerId), eq(syncJobs.status, 'running')))
+      .returning({ id: syncJobs.id });
+    return updated.length > 0;
+  }
+
+  async getActiveSyncJob(sessionId: string): Promise<SyncJob | undefined> {
+    const [job] = await db.select().from(syncJobs)
+      .where(and(eq(syncJobs.sessionId, sessionId), inArray(syncJobs.status, ['queued', 'running'])))
+      .limit(1);
+    return job || undefined;
+  }
+
+  async getStaleSyncJobs(before: Date): Promise<SyncJob[]> {
+    return await db.select().from(syncJobs)
+      .where(and(eq(syncJobs.status, 'running'), lt(syncJobs.heartbeatAt, before)))
+      .orderBy(asc(syncJobs.heartbeatAt));
+  }
+
+  async cancelQueuedSyncJobs(sessionId: string): Promise<void> {
+    await db
+      .update(syncJobs)
+      .set({ status: 'cancelled', completedAt: new Date() })
+      .where(and(eq(syncJobs.sessionId, sessionId), eq(syncJobs.status, 'queued')));
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,16 @@
+import { syncWorker } from "./services/syncWorker";
+
+// Standalone sync worker: claims queued sync jobs from the database and runs them.
+// Run one or more of these next to web servers started with SYNC_WORKER=external.
+syncWorker.start({
+  concurrency: parseInt(process.env.SYNC_WORKER_CONCURRENCY || '4', 10),
+  autoResume: process.env.SYNC_AUTO_RESUME === 'true',
+});
+
+const shutdown = () => {
+  syncWorker.stop();
+  process.exit(0);
+};
+
+process.on("SIGTERM", shutdown);
+process.on("SIGINT", shutdown);
@@ -1,24 +1,136 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, decimal, jsonb, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, decimal, jsonb, boolean, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
 
+export const priceRoundingModes = ['none', '0.99', '0.95', 'whole'] as const;
+
+// Turns the sheet value (e.g. supplier cost) into the retail price, applied in the order listed
+export const pricingRulesSchema = z.object({
+  enabled: z.boolean(),
+  basis: z.enum(['price', 'cost']).optional(), // start from the sheet price (default) or the row's cost column
+  markupPercent: z.number().optional(),
+  fixedAddOn: z.number().optional(),
+  rounding: z.enum(priceRoundingModes).optional(),
+  minPrice: z.number().nonnegative().optional(),
+  maxPrice: z.number().positive().optional(),
+  compareAtFactor: z.number().positive().optional(), // compare-at = final price x factor
+});
+
+export type PricingRules = z.infer<typeof pricingRulesSchema>;
+
+// Checked against the computed price before anything is written; violating rows are logged as 'blocked'
+export const guardrailsSchema = z.object({
+  enabled: z.boolean(),
+  maxIncreasePercent: z.number().positive().optional(),
+  maxDecreasePercent: z.number().positive().max(100).optional(),
+  minPrice: z.number().nonnegative().optional(), // absolute floor
+  requireCompareAtAbovePrice: z.boolean().optional(),
+  blockZeroPrices: z.boolean().optional(),
+  abortBlockedPercent: z.number().positive().max(100).optional(), // abort once this share of the sheet is blocked
+});
+
+export type Guardrails = z.infer<typeof guardrailsSchema>;
+
+export const syncJobPayloadSchema = z.object({
+  changeIds: z.array(z.string()).optional(), // approval jobs: the pending changes to apply
+});
+
+export type SyncJobPayload = z.infer<typeof syncJobPayloadSchema>;
+
 export const stores = pgTable("stores", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
   shopifyUrl: text("shopify_url").notNull(),
   accessToken: text("access_token").notNull(),
+  apiMode: text("api_mode").notNull().default('rest'), // 'rest', 'graphql', 'bulk'
+  syncConcurrency: integer("sync_concurrency").notNull().default(4), // sheet rows processed at once
+  duplicateSkuPolicy: text("duplicate_sku_policy").notNull().default('flag'), // 'update_all', 'flag', 'prefer_active', 'prefer_cached'
+  pricingRules: jsonb("pricing_rules").$type<PricingRules>(),
+  guardrails: jsonb("guardrails").$type<Guardrails>(),
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// How sheet rows are matched to Shopify variants: SKU compared exactly, ignoring case, or ignoring case,
+// spaces and separators; barcode/GTIN; product handle plus option values; or the variant ID column itself
+export const matchKeys = ['sku', 'sku_case_insensitive', 'sku_normalized', 'barcode', 'handle_options', 'variant_id'] as const;
+
+export type MatchKey = typeof matchKeys[number];
+
+// The mapped column holding the value a match key compares
+export function matchColumnFor(matchKey: MatchKey = 'sku'): 'sku' | 'barcode' | 'handle' | 'variantId' {
+  switch (matchKey) {
+    case 'barcode':
+      return 'barcode';
+    case 'handle_options':
+      return 'handle';
+    case 'variant_id':
+      return 'variantId';
+    default:
+      return 'sku';
+  }
+}
+
+// Each column reference is a header name from row 1 or a column letter (header names win)
+export const columnMappingSchema = z.object({
+  matchKey: z.enum(matchKeys).optional(), // defaults to 'sku'
+  sku: z.string().optional(), // required unless another match key is used
+  price: z.string().min(1),
+  compareAtPrice: z.string().optional(),
+  variantId: z.string().optional(), // where Shopify variant IDs are written back
+  barcode: z.string().optional(),
+  handle: z.string().optional(),
+  options: z.array(z.string()).max(3).optional(), // option value columns in option order, for 'handle_options'
+  quantities: z.record(z.string()).optional(), // Shopify location ID -> column with that location's available quantity
+  cost: z.string().optional(), // unit cost written to the variant's inventory item
+  marketPrices: z.record(z.string()).optional(), // Shopify price list ID -> column with that market's fixed price
+  extra: z.record(z.string()).optional(), // field name -> column, passed through with each row
+  // Per-row results written back after each row; missing headers are added to the sheet
+  statusColumns: z.object({
+    status: z.string().optional(),
+    oldPrice: z.string().optional(),
+    syncedAt: z.string().optional(),
+  }).optional(),
+}).superRefine((mapping, ctx) => {
+  const column = matchColumnFor(mapping.matchKey);
+  if (!mapping[column]) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [column],
+      message: `A ${column} column is required to match by ${mapping.matchKey || 'sku'}`,
+    });
+  }
+});
+
+export type ColumnMapping = z.infer<typeof columnMappingSchema>;
+
+// Mapping references are header names; a column is referenced by letter only when written as "Column D",
+// so a header that went missing isn't mistaken for a column letter ("SKU", "ID")
+export function columnLetterReference(letter: string): string {
+  return `Column ${letter.toUpperCase()}`;
+}
+
+export function parseColumnLetterReference(reference: string): string | null {
+  return reference.trim().match(/^column\s+([a-z]{1,3})$/i)?.[1].toUpperCase() ?? null;
+}
+
+// Layout used before mappings existed: SKU in A, price in B, compare-at in C, variant ID in D
+export const defaultColumnMapping: ColumnMapping = {
+  sku: columnLetterReference('A'),
+  price: columnLetterReference('B'),
+  compareAtPrice: columnLetterReference('C'),
+  variantId: columnLetterReference('D'),
+};
+
 export const googleSheets = pgTable("google_sheets", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   storeId: varchar("store_id").notNull().references(() => stores.id),
   sheetId: text("sheet_id").notNull(),
   sheetName: text("sheet_name").default("Sheet1"),
   serviceAccountJson: text("service_account_json"),
+  columnMapping: jsonb("column_mapping").$type<ColumnMapping>(),
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -27,12 +139,29 @@ export const syncSessions = pgTable("sync_sessions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   storeId: varchar("store_id").notNull().references(() => stores.id),
   sheetId: varchar("sheet_id").notNull().references(() => googleSheets.id),
-  status: text("status").notNull(), // 'running', 'completed', 'failed', 'stopped'
+  type: text("type").notNull().default('sync'), // 'sync', 'dry_run', 'rollback', 'approval'
+  parentSessionId: varchar("parent_session_id").references((): AnyPgColumn => syncSessions.id), // session a rollback restores
+  status: text("status").notNull(), // 'queued', 'running', 'completed', 'failed', 'stopped', 'interrupted', 'aborted'
   totalSkus: integer("total_skus").default(0),
   processedSkus: integer("processed_skus").default(0),
   updatedSkus: integer("updated_skus").default(0),
+  unchangedSkus: integer("unchanged_skus").default(0),
   notFoundSkus: integer("not_found_skus").default(0),
+  blockedSkus: integer("blocked_skus").default(0),
+  heldSkus: integer("held_skus").default(0), // changes waiting in pendingChanges
+  duplicateSkus: integer("duplicate_skus").default(0), // rows skipped because their SKU matched several variants
+  // Inventory is counted per location level, separately from the per-row price counters above
+  inventoryUpdated: integer("inventory_updated").default(0),
+  inventoryUnchanged: integer("inventory_unchanged").default(0),
+  inventoryErrors: integer("inventory_errors").default(0),
+  costUpdated: integer("cost_updated").default(0),
+  costErrors: integer("cost_errors").default(0),
+  marketPricesUpdated: integer("market_prices_updated").default(0), // counted per price list
+  marketPriceErrors: integer("market_price_errors").default(0),
   errorCount: integer("error_count").default(0),
+  approvalThresholdPercent: decimal("approval_threshold_percent", { precision: 10, scale: 2 }), // set for "requires approval" syncs
+  lastProcessedRow: integer("last_processed_row"), // sheet row checkpoint used to resume
+  heartbeatAt: timestamp("heartbeat_at"), // refreshed by the worker while the session is running
   startedAt: timestamp("started_at").defaultNow(),
   completedAt: timestamp("completed_at"),
 });
@@ -41,16 +170,85 @@ export const syncLogs = pgTable("sync_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   sessionId: varchar("session_id").notNull().references(() => syncSessions.id),
   sku: text("sku").notNull(),
-  status: text("status").notNull(), // 'success', 'not_found', 'error'
-  oldPrice: decimal("old_price", { precision: 10, scale: 2 }),
+  kind: text("kind").notNull().default('price'), // 'price', 'inventory' (one entry per location), 'cost' or 'market' (one entry per price list)
+  status: text("status").notNull(), // 'success', 'planned', 'unchanged', 'not_found', 'duplicate_sku', 'blocked', 'held', 'error'
+  oldPrice: decimal("old_price", { precision: 10, scale: 2 }), // market entries: the price list's fixed price, in its currency
   newPrice: decimal("new_price", { precision: 10, scale: 2 }),
   oldComparePrice: decimal("old_compare_price", { precision: 10, scale: 2 }),
   newComparePrice: decimal("new_compare_price", { precision: 10, scale: 2 }),
+  sheetPrice: decimal("sheet_price", { precision: 10, scale: 2 }), // value read from the sheet before pricing rules
+  pricingRule: text("pricing_rule"), // summary of the rules that produced newPrice
   errorMessage: text("error_message"),
   shopifyVariantId: text("shopify_variant_id"),
+  retryCount: integer("retry_count").default(0), // Shopify requests retried after 429/5xx responses
+  locationId: text("location_id"), // inventory entries: the Shopify location
+  oldQuantity: integer("old_quantity"), // available quantity before the sync; null when not stocked there
+  newQuantity: integer("new_quantity"),
+  oldCost: decimal("old_cost", { precision: 10, scale: 2 }), // inventory item unit cost; null when none was set
+  newCost: decimal("new_cost", { precision: 10, scale: 2 }),
+  priceListId: text("price_list_id"), // market entries: the Shopify price list and its currency
+  currency: text("currency"),
   timestamp: timestamp("timestamp").defaultNow(),
 });
 
+// Price changes held back by a "requires approval" sync until someone reviews them
+export const pendingChanges = pgTable("pending_changes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull().references(() => syncSessions.id),
+  storeId: varchar("store_id").notNull().references(() => stores.id),
+  sheetId: varchar("sheet_id").notNull().references(() => googleSheets.id),
+  sku: text("sku").notNull(),
+  shopifyVariantId: text("shopify_variant_id").notNull(),
+  shopifyProductId: text("shopify_product_id"),
+  status: text("status").notNull().default('pending'), // 'pending', 'approved', 'rejected', 'applied', 'failed', 'superseded'
+  oldPrice: decimal("old_price", { precision: 10, scale: 2 }),
+  newPrice: decimal("new_price", { precision: 10, scale: 2 }).notNull(),
+  oldComparePrice: decimal("old_compare_price", { precision: 10, scale: 2 }),
+  newComparePrice: decimal("new_compare_price", { precision: 10, scale: 2 }),
+  changePercent: decimal("change_percent", { precision: 10, scale: 2 }), // null when there was no old price
+  errorMessage: text("error_message"),
+  appliedSessionId: varchar("applied_session_id").references(() => syncSessions.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  reviewedAt: timestamp("reviewed_at"),
+});
+
+// Recurring syncs for a sheet; nextRunAt is computed from the cron expression in server time
+export const schedules = pgTable("schedules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  storeId: varchar("store_id").notNull().references(() => stores.id),
+  sheetId: varchar("sheet_id").notNull().references(() => googleSheets.id),
+  cronExpression: text("cron_expression").notNull(),
+  dryRun: boolean("dry_run").notNull().default(false),
+  approvalThresholdPercent: decimal("approval_threshold_percent", { precision: 10, scale: 2 }),
+  isActive: boolean("is_active").notNull().default(true),
+  nextRunAt: timestamp("next_run_at"),
+  lastRunAt: timestamp("last_run_at"),
+  lastSessionId: varchar("last_session_id").references(() => syncSessions.id),
+  lastError: text("last_error"), // why the last due run didn't start (e.g. a sync was already running)
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Work queue for sessions; workers claim rows with SELECT ... FOR UPDATE SKIP LOCKED
+export const syncJobs = pgTable("sync_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull().references(() => syncSessions.id),
+  storeId: varchar("store_id").notNull().references(() => stores.id),
+  status: text("status").notNull().default('queued'), // 'queued', 'running', 'completed', 'failed', 'cancelled'
+  payload: jsonb("payload").$type<SyncJobPayload>(),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  runAt: timestamp("run_at").notNull().defaultNow(), // pushed back between retries
+  lockedBy: text("locked_by"), // worker that claimed the job
+  lockedAt: timestamp("locked_at"),
+  heartbeatAt: timestamp("heartbeat_at"),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  // A store never has two jobs running at once, even across workers
+  uniqueIndex("sync_jobs_running_store_idx").on(table.storeId).where(sql`status = 'running'`),
+]);
+
 export const storeRelations = relations(stores, ({ many }) => ({
   googleSheets: many(googleSheets),
   syncSessions: many(syncSessions),
@@ -83,12 +281,28 @@ export const syncLogRelations = relations(syncLogs, ({ one }) => ({
   }),
 }));
 
-export const insertStoreSchema = createInsertSchema(stores).omit({
+export const shopifyApiModes = ['rest', 'graphql', 'bulk'] as const;
+
+export const MAX_SYNC_CONCURRENCY = 16;
+
+// What a sync does with a sheet row whose SKU matches more than one variant: update every match,
+// skip the row and log it, use the only match on an active product, or use the match cached in the sheet
+export const duplicateSkuPolicies = ['update_all', 'flag', 'prefer_active', 'prefer_cached'] as const;
+
+export const insertStoreSchema = createInsertSchema(stores, {
+  apiMode: z.enum(shopifyApiModes).optional(),
+  syncConcurrency: z.number().int().min(1).max(MAX_SYNC_CONCURRENCY).optional(),
+  duplicateSkuPolicy: z.enum(duplicateSkuPolicies).optional(),
+  pricingRules: pricingRulesSchema.nullable().optional(),
+  guardrails: guardrailsSchema.nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
 });
 
-export const insertGoogleSheetSchema = createInsertSchema(googleSheets).omit({
+export const insertGoogleSheetSchema = createInsertSchema(googleSheets, {
+  columnMapping: columnMappingSchema.nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
 });
@@ -104,6 +318,39 @@ export const insertSyncLogSchema = createInsertSchema(syncLogs).omit({
   timestamp: true,
 });
 
+export const insertPendingChangeSchema = createInsertSchema(pendingChanges).omit({
+  id: true,
+  createdAt: true,
+  reviewedAt: true,
+});
+
+export const insertScheduleSchema = createInsertSchema(schedules, {
+  cronExpression: z.string().trim().min(1),
+}).omit({
+  id: true,
+  nextRunAt: true,
+  lastRunAt: true,
+  lastSessionId: true,
+  lastError: true,
+  createdAt: true,
+});
+
+export const insertSyncJobSchema = createInsertSchema(syncJobs, {
+  payload: syncJobPayloadSchema.nullable().optional(),
+}).omit({
+  id: true,
+  lockedBy: true,
+  lockedAt: true,
+  heartbeatAt: true,
+  createdAt: true,
+  completedAt: true,
+});
+
+export const approvalDecisionSchema = z.object({
+  ids: z.array(z.string()).min(1),
+  action: z.enum(['approve', 'reject']),
+});
+
 export type Store = typeof stores.$inferSelect;
 export type InsertStore = z.infer<typeof insertStoreSchema>;
 export type GoogleSheet = typeof googleSheets.$inferSelect;
@@ -112,6 +359,13 @@ export type SyncSession = typeof syncSessions.$inferSelect;
 export type InsertSyncSession = z.infer<typeof insertSyncSessionSchema>;
 export type SyncLog = typeof syncLogs.$inferSelect;
 export type InsertSyncLog = z.infer<typeof insertSyncLogSchema>;
+export type PendingChange = typeof pendingChanges.$inferSelect;
+export type InsertPendingChange = z.infer<typeof insertPendingChangeSchema>;
+export type ApprovalDecision = z.infer<typeof approvalDecisionSchema>;
+export type Schedule = typeof schedules.$inferSelect;
+export type InsertSchedule = z.infer<typeof insertScheduleSchema>;
+export type SyncJob = typeof syncJobs.$inferSelect;
+export type InsertSyncJob = z.infer<typeof insertSyncJobSchema>;
 
 // Keep existing user schema for compatibility
 export const users = pgTable("users", {